@@ -0,0 +1,25 @@
+/**
+ * Categories API Route
+ * Lists the canonical categories with resource counts
+ */
+
+import { getKnowledgeBase, ApiCategoriesResponse } from '../../../lib/knowledge';
+import { apiSuccess, withErrorHandling } from '../../../lib/api-handler';
+
+export const runtime = 'nodejs';
+
+// ============================================================================
+// GET Handler
+// ============================================================================
+
+export const GET = withErrorHandling('Categories', async () => {
+  const kb = getKnowledgeBase();
+  await kb.initialize();
+
+  const response: ApiCategoriesResponse = {
+    categories: kb.getCategories(),
+    totalResources: kb.getStats().totalResources,
+  };
+
+  return apiSuccess(response);
+}, 'Failed to load categories');
@@ -3,8 +3,85 @@
  * Implements the proper 3-step workflow from SKILL.md
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getYCSkillKnowledge, SkillContent } from '../../../lib/knowledge';
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import {
+  getKnowledgeBase,
+  RetrievedChunk,
+  ResourceMeta,
+  SearchFilters,
+  Category,
+  fitToBudget,
+  QueryRewriter,
+  HeuristicQueryRewriter,
+  PassthroughQueryRewriter,
+} from '../../../lib/knowledge';
+import {
+  getLLMProvider,
+  getModelAllowlist,
+  resolveModel,
+  estimateUsage,
+  estimateCost,
+  estimateTokens,
+  estimateMessagesTokens,
+  LLMProvider,
+  LLMMessage,
+  ModelInfo,
+  TokenUsage,
+  ModelNotAllowedError,
+} from '../../../lib/llm';
+import { getClientIp } from '../../../lib/client-ip';
+import { apiSuccess, toAppError, withErrorHandling } from '../../../lib/api-handler';
+import { recordUsage } from '../../../lib/usage';
+import {
+  checkRateLimit,
+  applyRateLimitHeaders,
+  rateLimitExceededResponse,
+} from '../../../lib/rate-limit';
+import {
+  extractApiKey,
+  findApiKey,
+  checkQuota,
+  getQuotaStatus,
+  recordQuotaTokens,
+  applyQuotaHeaders,
+  quotaExceededResponse,
+  invalidApiKeyResponse,
+} from '../../../lib/quota';
+import { readJsonBody, validateChatRequest, CHAT_REQUEST_LIMITS } from '../../../lib/validation';
+import {
+  getConversationStore,
+  splitHistory,
+  rollMemory,
+  ConversationSummarizer,
+  HeuristicConversationSummarizer,
+  LLMConversationSummarizer,
+  MemoryContent,
+} from '../../../lib/conversations';
+import {
+  getProfileStore,
+  describeProfile,
+  inferProfile,
+  isProfileEmpty,
+  mergeProfile,
+  profileBoosts,
+} from '../../../lib/profiles';
+import { applySessionCookie, resolveOwner, RequestOwner } from '../../../lib/session';
+import { verifyCitations } from '../../../lib/citations';
+import {
+  InvalidRequestError,
+  NotFoundError,
+  type ApiKeyConfig,
+  type ChunkRef,
+  type CitationReport,
+  type ChatMessage,
+  type Conversation,
+  type ConversationMemory,
+  type FounderProfile,
+  type RequestUsage,
+  type ResourceRef,
+  type StoredMessage,
+} from '../../../lib/types';
 
 // Force Node.js runtime (not Edge) for better compatibility
 export const runtime = 'nodejs';
@@ -32,108 +109,276 @@ function createStreamResponse(stream: ReadableStream): Response {
 // ============================================================================
 
 const CONFIG = {
-  maxDiscoveryResults: 5,
-  maxDeepDiveResources: 3,
-  openRouterTimeout: 30000,
+  maxDiscoveryResults: 8,
+  // Candidate passages; the context budget decides which make it into the prompt
+  maxChunks: 12,
+  maxChunksPerResource: 4,
+  // Upper bound for passage tokens, keeping prompts well inside maxDuration
+  maxContextTokens: 12000,
+  // Condense follow-up questions with conversation context before discovery
+  enableQueryRewrite: process.env.ENABLE_QUERY_REWRITE !== 'false',
+  // Essential reading used when discovery finds no keyword matches
+  fallbackResources: ['8z', '8g', 'DU', '91'],
+  // Messages sent verbatim; older turns are compressed into the conversation memory
+  recentHistoryMessages: 4,
+  // Roll older turns of stored conversations into a founder profile + discussion summary
+  enableConversationSummary: process.env.ENABLE_CONVERSATION_SUMMARY !== 'false',
 };
 
+const queryRewriter: QueryRewriter = CONFIG.enableQueryRewrite
+  ? new HeuristicQueryRewriter()
+  : new PassthroughQueryRewriter();
+
 // ============================================================================
-// OpenRouter Streaming
+// Usage Accounting
 // ============================================================================
 
-async function* streamOpenRouter(
-  apiKey: string, 
-  messages: Array<{role: string; content: string}>,
-  model: string = 'anthropic/claude-sonnet-4.5'
-): AsyncGenerator<string> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), CONFIG.openRouterTimeout);
+/**
+ * Usage for one answer: provider-reported tokens when available, a local
+ * estimate otherwise. Priced with the requested model, aggregated per client
+ * and charged against the API key's daily token quota. Summary calls add
+ * tokens without counting as another request.
+ */
+function accountUsage(
+  clientId: string,
+  apiKey: ApiKeyConfig | undefined,
+  model: ModelInfo,
+  messages: LLMMessage[],
+  completion: string,
+  reported?: TokenUsage,
+  kind: 'answer' | 'summary' = 'answer'
+): RequestUsage {
+  const usage = reported || estimateUsage(messages, completion);
+  const costUsd = estimateCost(model, usage.promptTokens, usage.completionTokens);
+
+  recordUsage(clientId, model.id, {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.totalTokens,
+    costUsd,
+  }, kind === 'answer');
+  if (apiKey) {
+    recordQuotaTokens(apiKey, usage.totalTokens);
+  }
+  console.log(`[POST] ${kind === 'summary' ? 'Summary usage' : 'Usage'} (${usage.estimated ? 'estimated' : 'reported'}): ${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens, $${costUsd.toFixed(5)}`);
 
-  try {
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-        'X-Title': 'YC Advisor',
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        max_tokens: 4096,
-        temperature: 0.7,
-        stream: true,
-      }),
-      signal: controller.signal,
-    });
+  return { ...usage, costUsd };
+}
 
-    clearTimeout(timeoutId);
+// ============================================================================
+// Citation Verification
+// ============================================================================
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
-    }
+/**
+ * Check the answer's "[author - title (chunk)]" citations and verbatim quotes
+ * against the passages that were actually in the prompt, logging anything
+ * that does not resolve so hallucinated references show up in the logs.
+ */
+function checkCitations(answer: string, chunks: RetrievedChunk[]): CitationReport {
+  const report = verifyCitations(answer, chunks);
+  const flagged = report.citations.filter(c => c.status !== 'verified');
+  const missingQuotes = report.quotes.filter(q => !q.found);
+
+  console.log(`[POST] Citations ${report.status}: ${report.citations.length - flagged.length}/${report.citations.length} verified, ${report.quotes.length - missingQuotes.length}/${report.quotes.length} quotes found`);
+  if (flagged.length > 0) {
+    console.warn('[POST] Unverified citations:', flagged.map(c => `${c.raw} (${c.status}: ${c.issues?.join('; ')})`));
+  }
+  if (missingQuotes.length > 0) {
+    console.warn('[POST] Quotes not found in sources:', missingQuotes.map(q => q.text));
+  }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body');
-    }
+  return report;
+}
 
-    const decoder = new TextDecoder();
-    let buffer = '';
+// ============================================================================
+// Conversation Persistence
+// ============================================================================
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+interface StoredConversationContext {
+  ownerId: string;
+  id: string;
+  /** Prior turns; on regenerate the exchange being replaced is left out */
+  history: ChatMessage[];
+  memory?: ConversationMemory;
+}
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
+async function loadConversation(
+  ownerId: string,
+  id: string,
+  regenerate: boolean
+): Promise<StoredConversationContext> {
+  const conversation = await getConversationStore().get(ownerId, id);
+  if (!conversation) {
+    throw new NotFoundError(`Conversation not found: ${id}`);
+  }
 
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed || !trimmed.startsWith('data: ')) continue;
+  let messages = conversation.messages;
+  if (regenerate) {
+    const lastUser = messages.map(m => m.role).lastIndexOf('user');
+    if (lastUser !== -1) messages = messages.slice(0, lastUser);
+  }
 
-        const data = trimmed.slice(6);
-        
-        if (data === '[DONE]') {
-          return;
-        }
+  return {
+    ownerId,
+    id,
+    history: messages.map(m => ({ role: m.role, content: m.content })),
+    memory: conversation.memory,
+  };
+}
 
-        try {
-          const parsed = JSON.parse(data);
-          const delta = parsed.choices?.[0]?.delta?.content;
-          if (delta) {
-            yield delta;
-          }
-        } catch {
-          // Skip invalid JSON
-        }
-      }
+/** Store the question and its answer; regenerating replaces the previous exchange */
+async function saveExchange(
+  conversation: StoredConversationContext,
+  question: string,
+  answer: Omit<StoredMessage, 'id' | 'role' | 'createdAt'>,
+  regenerate: boolean
+): Promise<Conversation | null> {
+  const createdAt = new Date().toISOString();
+  try {
+    return await getConversationStore().append(conversation.ownerId, conversation.id, [
+      { id: randomUUID(), role: 'user', content: question, createdAt },
+      { id: randomUUID(), role: 'assistant', createdAt, ...answer },
+    ], regenerate);
+  } catch (error) {
+    // The answer has already been generated; losing the transcript is not worth failing it
+    console.error(`[POST] Failed to save conversation ${conversation.id}:`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// Founder Profile
+// ============================================================================
+
+/**
+ * Load the caller's founder profile and fold in anything the message reveals
+ * about them. Fields the founder entered themselves are never overwritten.
+ * Profile storage is best-effort: a failure only loses personalization.
+ */
+async function updateProfile(ownerId: string, message: string): Promise<FounderProfile | null> {
+  const store = getProfileStore();
+  let profile: FounderProfile | null = null;
+  try {
+    profile = await store.get(ownerId);
+    const updated = mergeProfile(profile, inferProfile(message), 'inferred');
+    if (updated) {
+      profile = await store.save(ownerId, updated);
+      console.log(`[POST] Inferred founder profile: ${describeProfile(profile).join(', ')}`);
     }
-  } finally {
-    clearTimeout(timeoutId);
+  } catch (error) {
+    console.error('[POST] Failed to update founder profile:', error);
   }
+  return profile;
+}
+
+// ============================================================================
+// Conversation Memory
+// ============================================================================
+
+/** Client, API key and model that model calls made for a request are charged to */
+interface UsageAccount {
+  clientId: string;
+  apiKey?: ApiKeyConfig;
+  model: ModelInfo;
+}
+
+/**
+ * The mock provider cannot summarize, so offline runs use the rule-based
+ * summary. Summary tokens count towards the same usage and quota as the answer.
+ */
+function getSummarizer(llm: LLMProvider, account: UsageAccount): ConversationSummarizer {
+  return llm.name === 'mock'
+    ? new HeuristicConversationSummarizer()
+    : new LLMConversationSummarizer(llm, {
+      model: account.model.id,
+      onUsage: (prompt, summary, usage) =>
+        accountUsage(account.clientId, account.apiKey, account.model, prompt, summary, usage, 'summary'),
+    });
+}
+
+/**
+ * Fold the turns that slid out of the recent window into the stored memory.
+ * Runs after the answer has been sent, so a slow or failed summary never
+ * delays the response; the next request picks up whatever was saved.
+ */
+async function updateMemory(
+  llm: LLMProvider,
+  account: UsageAccount,
+  ownerId: string,
+  conversation: Conversation
+): Promise<void> {
+  const memory = await rollMemory(
+    getSummarizer(llm, account),
+    conversation.messages,
+    conversation.memory,
+    CONFIG.recentHistoryMessages
+  );
+  if (!memory) return;
+
+  await getConversationStore().updateMemory(ownerId, conversation.id, memory);
+  console.log(`[POST] Conversation ${conversation.id} memory now covers ${memory.summarizedCount} messages`);
 }
 
 // ============================================================================
 // System Prompt Builder
 // ============================================================================
 
-function buildSystemPrompt(resources: SkillContent[]): string {
-  console.log(`[buildSystemPrompt] Building prompt with ${resources.length} resources`);
+/** Group retrieved chunks by resource, keeping retrieval order across resources */
+function groupByResource(chunks: RetrievedChunk[]): { meta: ResourceMeta; chunks: RetrievedChunk['chunk'][] }[] {
+  const groups = new Map<string, { meta: ResourceMeta; chunks: RetrievedChunk['chunk'][] }>();
+  for (const { meta, chunk } of chunks) {
+    if (!groups.has(meta.code)) {
+      groups.set(meta.code, { meta, chunks: [] });
+    }
+    groups.get(meta.code)!.chunks.push(chunk);
+  }
+  return Array.from(groups.values());
+}
+
+function buildMemorySection(memory?: MemoryContent): string {
+  if (!memory || !(memory.profile || memory.discussion)) return '';
+
+  return `
+## 对话记忆（更早对话的摘要，回答时保持一致，不要重复已给过的建议）
+### 创业者画像
+${memory.profile || '（暂无）'}
+
+### 已讨论内容
+${memory.discussion || '（暂无）'}
+`;
+}
+
+function buildProfileSection(profile?: FounderProfile | null): string {
+  if (!profile || isProfileEmpty(profile)) return '';
+
+  return `
+## 创业者档案（据此调整建议的侧重点；推断的信息与本次提问矛盾时以提问为准）
+${describeProfile(profile).map(line => `- ${line}`).join('\n')}
+`;
+}
+
+function buildSystemPrompt(
+  chunks: RetrievedChunk[],
+  memory?: MemoryContent,
+  profile?: FounderProfile | null
+): string {
+  const resources = groupByResource(chunks);
+  console.log(`[buildSystemPrompt] Building prompt with ${chunks.length} chunks from ${resources.length} resources`);
   
   // Build citations
   const citations = resources
     .map(r => `- **${r.meta.title}** by ${r.meta.author} (${r.meta.code})`)
     .join('\n');
 
-  // Build full context from resources - use full content
+  // Build context from the retrieved passages, in document order per resource
   const contexts = resources
     .map(r => {
-      console.log(`[buildSystemPrompt] Adding ${r.meta.code}: ${r.content.length} chars`);
-      return `---\n## ${r.meta.title}\n**Author:** ${r.meta.author}\n**Type:** ${r.meta.type}\n\n${r.content}\n---`;
+      const passages = [...r.chunks]
+        .sort((a, b) => a.startLine - b.startLine)
+        .map(c => `### 片段 ${c.id}（第 ${c.startLine}-${c.endLine} 行${c.heading ? ` · ${c.heading}` : ''}）\n${c.text}`)
+        .join('\n\n');
+      console.log(`[buildSystemPrompt] Adding ${r.meta.code}: ${r.chunks.length} chunks, ${passages.length} chars`);
+      return `---\n## ${r.meta.title}\n**Author:** ${r.meta.author}\n**Type:** ${r.meta.type}\n**Topics:** ${r.meta.topics.join(', ')}\n\n${passages}\n---`;
     })
     .join('\n\n');
   
@@ -151,16 +396,16 @@ function buildSystemPrompt(resources: SkillContent[]): string {
 - **具体可操作**：给出明确的下一步行动
 - **引用具体案例**：用真实的 YC 公司作为例子
 - **诚实务实**：如果某个想法不好，直接说
-
+${buildProfileSection(profile)}${buildMemorySection(memory)}
 ## 引用规范（必须遵守）
-- **每个观点都要标注来源**：使用 "[作者名 - 文章标题]" 格式
+- **每个观点都要标注来源**：使用 "[作者名 - 文章标题]" 格式；引用具体段落时在标题后附片段编号，如 "[Paul Graham - How to Get Startup Ideas (8z#3)]"
 - **基于提供的参考资料回答**：不要编造信息
 - **最后列出参考来源**：使用 "## 参考资料" 标题
 
 ## 本次回答可用的参考资料
 ${citations}
 
-## 参考资料详细内容（基于这些内容回答）
+## 参考资料相关片段（基于这些内容回答）
 ${contexts}
 
 重要：你的回答必须基于上面提供的参考资料内容。每个观点都要标注来源。`;
@@ -170,250 +415,414 @@ ${contexts}
 // POST Handler - YC Skill 3-Step Workflow
 // ============================================================================
 
-export async function POST(req: NextRequest) {
-  const startTime = Date.now();
-  
-  try {
-    const { message, history = [], stream = true } = await req.json();
+export async function POST(req: NextRequest): Promise<Response> {
+  const ip = getClientIp(req.headers);
 
-    if (!message || typeof message !== 'string') {
-      return NextResponse.json({ error: 'Message is required' }, { status: 400 });
-    }
+  const rateLimit = await checkRateLimit(ip, 'chat');
+  if (!rateLimit.allowed) {
+    console.warn(`[POST] Rate limited ${ip}, retry after ${rateLimit.retryAfter}s`);
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  // API keys add daily quotas on top of the per-IP limit; anonymous callers only have the latter
+  const presentedKey = extractApiKey(req.headers);
+  if (!presentedKey) {
+    const owner = resolveOwner(req);
+    const response = applySessionCookie(await handleChat(req, ip, owner), owner);
+    return applyRateLimitHeaders(response, rateLimit);
+  }
 
-    // Validate API Key
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey || apiKey.length < 20) {
-      console.error('OPENROUTER_API_KEY not configured or invalid');
-      return NextResponse.json(
-        { error: 'Service configuration error' },
-        { status: 500 }
+  const apiKey = findApiKey(presentedKey);
+  if (!apiKey) {
+    console.warn(`[POST] Invalid API key from ${ip}`);
+    return applyRateLimitHeaders(invalidApiKeyResponse(), rateLimit);
+  }
+
+  const quota = checkQuota(apiKey);
+  if (!quota.allowed) {
+    console.warn(`[POST] Daily ${quota.exceeded} quota exceeded for key ${apiKey.name}`);
+    return applyRateLimitHeaders(quotaExceededResponse(quota), rateLimit);
+  }
+
+  // Non-streaming answers have been charged by now; streams report the quota at start
+  const clientId = `key:${apiKey.name}`;
+  const response = await handleChat(req, clientId, { ownerId: clientId }, apiKey);
+  return applyQuotaHeaders(applyRateLimitHeaders(response, rateLimit), getQuotaStatus(apiKey));
+}
+
+/**
+ * Errors thrown here become ApiResponse errors: invalid input and disallowed
+ * models are 400 INVALID_REQUEST, provider failures 502 SERVICE_ERROR and
+ * upstream timeouts 504 TIMEOUT.
+ */
+const handleChat = withErrorHandling('POST', async (
+  req: NextRequest,
+  clientId: string,
+  owner: RequestOwner,
+  apiKey?: ApiKeyConfig
+) => {
+  const startTime = Date.now();
+
+  const body = await readJsonBody(req, CHAT_REQUEST_LIMITS.maxBodyBytes);
+  if (!body.valid) {
+    throw new InvalidRequestError('Invalid chat request', body.error);
+  }
+  const validation = validateChatRequest(body.data);
+  if (!validation.valid) {
+    throw new InvalidRequestError('Invalid chat request', validation.error);
+  }
+  const {
+    message,
+    history: requestHistory = [],
+    stream = true,
+    category,
+    model,
+    conversationId,
+    regenerate = false,
+  } = validation.data!;
+
+  // A stored conversation replaces the client-supplied history
+  const stored = conversationId
+    ? await loadConversation(owner.ownerId, conversationId, regenerate)
+    : undefined;
+  const history: ChatMessage[] = stored ? stored.history : requestHistory;
+  const profile = await updateProfile(owner.ownerId, message);
+
+  // Resolve the configured LLM provider (LLMConfigError -> 500 SERVICE_ERROR)
+  const llm: LLMProvider = getLLMProvider();
+
+  // Resolve the requested model against the allowlist
+  let modelInfo: ModelInfo;
+  try {
+    modelInfo = resolveModel(getModelAllowlist(), model);
+  } catch (error) {
+    if (error instanceof ModelNotAllowedError) {
+      throw new InvalidRequestError(
+        error.message,
+        `Allowed models: ${getModelAllowlist().map(m => m.id).join(', ')}`
       );
     }
+    throw error;
+  }
 
-    // ========================================================================
-    // Step 1: Discovery - Find relevant resources from quick-index
-    // ========================================================================
-    console.log('[POST] === Step 1: Discovery ===');
-    const skillKB = getYCSkillKnowledge();
-    await skillKB.initialize();
-
-    const discoveredResources = await skillKB.discover(
-      message, 
-      CONFIG.maxDiscoveryResults
-    );
-
-    if (discoveredResources.length === 0) {
-      return NextResponse.json({
-        text: '抱歉，我在知识库中没有找到与你问题相关的资源。请尝试用不同的方式描述你的问题。',
-        resources: [],
+  const saveAnswer = async (answer: Omit<StoredMessage, 'id' | 'role' | 'createdAt'>) => {
+    if (!stored) return;
+    const saved = await saveExchange(stored, message, answer, regenerate);
+    if (saved && CONFIG.enableConversationSummary) {
+      void updateMemory(llm, { clientId, apiKey, model: modelInfo }, stored.ownerId, saved).catch(error => {
+        console.error(`[POST] Failed to update memory for conversation ${saved.id}:`, error);
       });
     }
+  };
+
+  // Recent turns go to the model verbatim. Older turns come from the stored
+  // memory; turns it does not cover yet (summary still pending or failed, or
+  // client-supplied history) are summarized on the spot without a model call.
+  const historyWindow = splitHistory(
+    history,
+    CONFIG.recentHistoryMessages,
+    stored?.memory?.summarizedCount
+  );
+  const memory: MemoryContent | undefined = historyWindow.pending.length > 0
+    ? await new HeuristicConversationSummarizer().summarize(stored?.memory, historyWindow.pending)
+    : stored?.memory;
+
+  // Stopping the answer or a dropped connection aborts the provider request
+  const abort = new AbortController();
+  req.signal.addEventListener('abort', () => abort.abort(), { once: true });
+  const completionOptions = {
+    model: modelInfo.id,
+    maxTokens: modelInfo.maxOutputTokens,
+    signal: abort.signal,
+  };
+
+  // ========================================================================
+  // Step 0: Query Rewriting - Turn follow-ups into standalone queries
+  // ========================================================================
+  const rewrite = await queryRewriter.rewrite(message, history);
+  if (rewrite.rewritten) {
+    console.log(`[POST] Rewrote query: "${rewrite.original}" -> "${rewrite.query}"`);
+  }
 
-    // ========================================================================
-    // Step 2: Deep Dive - Load full content of top resources
-    // ========================================================================
-    console.log('[POST] === Step 2: Deep Dive ===');
-    const topCodes = discoveredResources
-      .slice(0, CONFIG.maxDeepDiveResources)
-      .map(r => r.code);
-
-    const loadedContents = await skillKB.loadResources(topCodes);
-
-    if (loadedContents.length === 0) {
-      return NextResponse.json({
-        text: '抱歉，找到了相关资源但无法加载内容。请稍后重试。',
-        resources: discoveredResources.map(r => ({ 
-          code: r.code, 
-          title: r.title, 
-          author: r.author 
-        })),
-      });
-    }
+  // ========================================================================
+  // Step 1: Discovery - Find relevant resources in the knowledge index
+  // ========================================================================
+  console.log('[POST] === Step 1: Discovery ===');
+  const kb = getKnowledgeBase();
+  await kb.initialize();
+
+  // An explicitly scoped category takes precedence over an inferred one
+  const scopedFilters: SearchFilters = category ? { categories: [category as Category] } : {};
+  const inferredFilters: SearchFilters = category
+    ? { stages: rewrite.filters.stages }
+    : rewrite.filters;
+  const hasInferredFilters = Boolean(inferredFilters.categories?.length || inferredFilters.stages?.length);
+
+  // The founder profile only reorders results; filters come from the question
+  const boosts = profileBoosts(profile);
+  if (boosts) {
+    console.log('[POST] Profile boosts:', boosts);
+  }
 
-    console.log(`[POST] Loaded ${loadedContents.length} resources with full content`);
+  let discoveredResources = await kb.discover(rewrite.query, {
+    filters: { ...scopedFilters, ...inferredFilters },
+    boosts,
+    limit: CONFIG.maxDiscoveryResults,
+  });
 
-    // ========================================================================
-    // Step 3: Synthesize - Generate answer with proper citations
-    // ========================================================================
-    console.log('[POST] === Step 3: Synthesize ===');
+  // Inferred filters are a hint; drop them rather than return nothing
+  if (discoveredResources.length === 0 && hasInferredFilters) {
+    discoveredResources = await kb.discover(rewrite.query, {
+      filters: scopedFilters,
+      boosts,
+      limit: CONFIG.maxDiscoveryResults,
+    });
+  }
 
-    const systemPrompt = buildSystemPrompt(loadedContents);
-    
-    const messages = [
-      { role: 'system' as const, content: systemPrompt },
-      ...history.slice(-4).map((h: {role: string; content: string}) => ({ 
-        role: h.role as 'user' | 'assistant', 
-        content: h.content 
-      })),
-      { role: 'user' as const, content: message },
-    ];
+  if (discoveredResources.length === 0 && !category) {
+    discoveredResources = kb.getResourcesByCodes(CONFIG.fallbackResources);
+  }
+  console.log(`[POST] Discovered ${discoveredResources.length} resources:`, discoveredResources.map(r => r.code));
+
+  if (discoveredResources.length === 0) {
+    const text = '抱歉，我在知识库中没有找到与你问题相关的资源。请尝试用不同的方式描述你的问题。';
+    await saveAnswer({ content: text });
+    return apiSuccess({ text, resources: [], conversationId });
+  }
+
+  // ========================================================================
+  // Step 2: Deep Dive - Retrieve the best passages across resources
+  // ========================================================================
+  console.log('[POST] === Step 2: Deep Dive ===');
+  const retrievedChunks = await kb.retrieveChunks(rewrite.query, {
+    codes: discoveredResources.map(r => r.code),
+    limit: CONFIG.maxChunks,
+    perResource: CONFIG.maxChunksPerResource,
+  });
 
-    // If streaming is requested, use streaming response
-    if (stream) {
-      const streamResponse = new ReadableStream({
-        async start(controller) {
+  if (retrievedChunks.length === 0) {
+    const text = '抱歉，找到了相关资源但无法加载内容。请稍后重试。';
+    const resources = discoveredResources.map(r => ({ 
+      code: r.code, 
+      title: r.title, 
+      author: r.author 
+    }));
+    await saveAnswer({ content: text, resources });
+    return apiSuccess({ text, resources, conversationId });
+  }
+
+  console.log(`[POST] Retrieved ${retrievedChunks.length} chunks:`, retrievedChunks.map(c => c.chunk.id));
+
+  // ========================================================================
+  // Step 3: Synthesize - Generate answer with proper citations
+  // ========================================================================
+  console.log('[POST] === Step 3: Synthesize ===');
+
+  const conversation: LLMMessage[] = [
+    ...historyWindow.recent.map(h => ({ role: h.role, content: h.content })),
+    { role: 'user' as const, content: message },
+  ];
+
+  // Fit passages into what the model's context leaves after instructions,
+  // conversation and the reserved completion tokens
+  const fixedTokens = estimateTokens(buildSystemPrompt([], memory, profile)) + estimateMessagesTokens(conversation);
+  const budgetTokens = Math.max(0, Math.min(
+    CONFIG.maxContextTokens,
+    modelInfo.contextWindow - modelInfo.maxOutputTokens - fixedTokens
+  ));
+  const context = fitToBudget(retrievedChunks, budgetTokens);
+  const contextChunks = context.chunks;
+  const loadedResources = groupByResource(contextChunks).map(r => r.meta);
+  const resourceRefs: ResourceRef[] = loadedResources.map(r => ({
+    code: r.code,
+    title: r.title,
+    author: r.author,
+    type: r.type,
+  }));
+  const chunkRefs: ChunkRef[] = contextChunks.map(({ meta, chunk }) => ({
+    id: chunk.id,
+    code: meta.code,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine,
+    heading: chunk.heading,
+  }));
+  console.log(`[POST] Context budget: ${context.usedTokens}/${budgetTokens} tokens, ${contextChunks.length} chunks from ${loadedResources.length} resources`);
+  if (context.truncated.length > 0) {
+    console.log('[POST] Truncated:', context.truncated.map(t => `${t.code} (${t.includedTokens}/${t.originalTokens})`));
+  }
+
+  const systemPrompt = buildSystemPrompt(contextChunks, memory, profile);
+  
+  const messages: LLMMessage[] = [
+    { role: 'system' as const, content: systemPrompt },
+    ...conversation,
+  ];
+
+  // If streaming is requested, use streaming response
+  if (stream) {
+    const streamResponse = new ReadableStream({
+      async start(controller) {
+        // After the client disconnects the stream is closed; keep going only
+        // to account and save what was generated
+        const send = (data: Record<string, unknown>) => {
+          if (!abort.signal.aborted) controller.enqueue(createSSE(data));
+        };
+
+        try {
+          // Send metadata with discovered resources
+          send({
+            type: 'metadata',
+            resources: resourceRefs,
+            chunks: chunkRefs,
+            totalFound: discoveredResources.length,
+            rewrittenQuery: rewrite.rewritten ? rewrite.query : undefined,
+            inferredFilters: hasInferredFilters ? {
+              categories: inferredFilters.categories,
+              stages: inferredFilters.stages,
+            } : undefined,
+            truncated: context.truncated.length > 0 ? context.truncated : undefined,
+          });
+
+          // Stream content from the LLM provider
+          let fullContent = '';
+          let answeredModel = modelInfo.id;
+          let reportedUsage: TokenUsage | undefined;
+          
           try {
-            // Send metadata with discovered resources
-            controller.enqueue(
-              createSSE({
-                type: 'metadata',
-                resources: loadedContents.map(c => ({
-                  code: c.meta.code,
-                  title: c.meta.title,
-                  author: c.meta.author,
-                  type: c.meta.type,
-                })),
-                totalFound: discoveredResources.length,
-              })
-            );
-
-            // Stream content from OpenRouter
-            let fullContent = '';
-            
-            try {
-              for await (const chunk of streamOpenRouter(apiKey, messages)) {
-                fullContent += chunk;
-                controller.enqueue(
-                  createSSE({
-                    type: 'content',
-                    chunk,
-                  })
-                );
-              }
-            } catch (streamError) {
+            for await (const { content: chunk, model: reportedModel, usage } of llm.stream(messages, completionOptions)) {
+              if (abort.signal.aborted) break;
+              if (reportedModel) answeredModel = reportedModel;
+              if (usage) reportedUsage = usage;
+              if (!chunk) continue;
+              fullContent += chunk;
+              send({
+                type: 'content',
+                chunk,
+              });
+            }
+          } catch (streamError) {
+            if (!abort.signal.aborted) {
               console.error('[POST] Streaming error:', streamError);
-              controller.enqueue(
-                createSSE({
-                  type: 'error',
-                  error: 'Stream interrupted',
-                })
-              );
+              send({
+                type: 'error',
+                error: 'Stream interrupted',
+                code: toAppError(streamError).code,
+              });
             }
+          }
+          if (abort.signal.aborted) {
+            console.log(`[POST] Client stopped the answer after ${fullContent.length} chars`);
+          }
 
-            // Send completion
-            const executionTime = Date.now() - startTime;
-            controller.enqueue(
-              createSSE({
-                type: 'done',
-                executionTime,
-                totalTokens: fullContent.length / 4,
-              })
-            );
-            controller.close();
-          } catch (error) {
-            console.error('[POST] Stream error:', error);
-            controller.enqueue(
-              createSSE({
-                type: 'error',
-                error: 'Failed to generate response',
-              })
-            );
+          // Send completion; a stopped answer is still billed for what was generated
+          const executionTime = Date.now() - startTime;
+          const usage = accountUsage(clientId, apiKey, modelInfo, messages, fullContent, reportedUsage);
+          if (fullContent) {
+            const citations = checkCitations(fullContent, contextChunks);
+            send({ type: 'citations', ...citations });
+            await saveAnswer({
+              content: fullContent,
+              resources: resourceRefs,
+              chunks: chunkRefs,
+              citations,
+              model: answeredModel,
+            });
+          }
+          send({
+            type: 'done',
+            executionTime,
+            totalTokens: usage.totalTokens,
+            model: answeredModel,
+            usage,
+            conversationId,
+          });
+          if (!abort.signal.aborted) controller.close();
+        } catch (error) {
+          console.error('[POST] Stream error:', error);
+          if (!abort.signal.aborted) {
+            send({
+              type: 'error',
+              error: 'Failed to generate response',
+              code: toAppError(error).code,
+            });
             controller.close();
           }
-        },
-      });
-
-      return createStreamResponse(streamResponse);
-    }
-
-    // Non-streaming response
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-        'X-Title': 'YC Advisor',
+        }
+      },
+      cancel() {
+        abort.abort();
       },
-      body: JSON.stringify({
-        model: 'anthropic/claude-sonnet-4.5',
-        messages,
-        max_tokens: 4096,
-        temperature: 0.7,
-      }),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      return NextResponse.json({ text: '抱歉，没有收到回复。' });
-    }
-
-    return NextResponse.json({ 
-      text: content,
-      resources: loadedContents.map(c => ({ 
-        code: c.meta.code, 
-        title: c.meta.title, 
-        author: c.meta.author 
-      })),
-    });
+    return createStreamResponse(streamResponse);
+  }
 
-  } catch (error) {
-    console.error('[POST] Error:', error);
-    const isDev = process.env.NODE_ENV === 'development';
-    const errorMessage = error instanceof Error && error.name === 'AbortError'
-      ? '请求超时，请稍后重试'
-      : 'Internal server error';
-    
-    return NextResponse.json(
-      { 
-        error: errorMessage,
-        details: isDev && error instanceof Error ? error.message : undefined 
-      },
-      { status: 500 }
-    );
+  // Non-streaming response
+  const { content, model: answeredModel, usage: reportedUsage } = await llm.complete(messages, completionOptions);
+  const usage = accountUsage(clientId, apiKey, modelInfo, messages, content, reportedUsage);
+  
+  if (!content) {
+    return apiSuccess({ text: '抱歉，没有收到回复。', conversationId });
   }
-}
+
+  const citations = checkCitations(content, contextChunks);
+  await saveAnswer({ content, resources: resourceRefs, chunks: chunkRefs, citations, model: answeredModel });
+
+  return apiSuccess({ 
+    text: content,
+    model: answeredModel,
+    usage,
+    truncated: context.truncated.length > 0 ? context.truncated : undefined,
+    resources: resourceRefs,
+    chunks: chunkRefs,
+    citations,
+    conversationId,
+  });
+}, 'Internal server error');
 
 // ============================================================================
 // GET Handler - List available resources
 // ============================================================================
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
-  try {
-    const { searchParams } = new URL(request.url);
-    const query = searchParams.get('q') || '';
-    
-    const skillKB = getYCSkillKnowledge();
-    await skillKB.initialize();
-
-    if (query) {
-      // Search resources
-      const resources = await skillKB.discover(query, 10);
-      return NextResponse.json({
-        resources: resources.map(r => ({
-          code: r.code,
-          title: r.title,
-          author: r.author,
-          type: r.type,
-        })),
-        query,
-      });
-    } else {
-      // List all resources
-      const allResources = skillKB.getAllResources();
-      return NextResponse.json({
-        resources: allResources.map(r => ({
-          code: r.code,
-          title: r.title,
-          author: r.author,
-          type: r.type,
-        })),
-        total: allResources.length,
-      });
-    }
-    
-  } catch (error) {
-    console.error('[GET] Error:', error);
-    return NextResponse.json(
-      { error: 'Failed to load resources' },
-      { status: 500 }
-    );
+export async function GET(request: NextRequest): Promise<Response> {
+  const rateLimit = await checkRateLimit(getClientIp(request.headers), 'search');
+  if (!rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
   }
+
+  return applyRateLimitHeaders(await listResources(request), rateLimit);
 }
+
+const listResources = withErrorHandling('GET', async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('q') || '';
+
+  const kb = getKnowledgeBase();
+  await kb.initialize();
+
+  if (query) {
+    // Search resources
+    const resources = await kb.discover(query, { limit: 10 });
+    return apiSuccess({
+      resources: resources.map(r => ({
+        code: r.code,
+        title: r.title,
+        author: r.author,
+        type: r.type,
+      })),
+      query,
+    });
+  }
+
+  // List all resources
+  const allResources = kb.getAllResources();
+  return apiSuccess({
+    resources: allResources.map(r => ({
+      code: r.code,
+      title: r.title,
+      author: r.author,
+      type: r.type,
+    })),
+    total: allResources.length,
+  });
+}, 'Failed to load resources');
@@ -0,0 +1,72 @@
+/**
+ * Conversation Detail API Route
+ * Loads, renames and deletes one of the caller's conversations
+ */
+
+import { NextRequest } from 'next/server';
+import { getConversationStore } from '../../../../lib/conversations';
+import { apiSuccess, withErrorHandling } from '../../../../lib/api-handler';
+import { resolveOwner } from '../../../../lib/session';
+import {
+  readJsonBody,
+  validateConversationTitle,
+  CONVERSATION_BODY_LIMIT,
+} from '../../../../lib/validation';
+import { InvalidRequestError, NotFoundError } from '../../../../lib/types';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Other owners' conversations are reported as missing rather than forbidden
+function notFound(id: string): NotFoundError {
+  return new NotFoundError(`Conversation not found: ${id}`);
+}
+
+// ============================================================================
+// GET Handler
+// ============================================================================
+
+export const GET = withErrorHandling('Conversation', async (req: NextRequest, { params }: RouteContext) => {
+  const { ownerId } = resolveOwner(req);
+  const conversation = await getConversationStore().get(ownerId, params.id);
+  if (!conversation) throw notFound(params.id);
+
+  return apiSuccess(conversation);
+}, 'Failed to load conversation');
+
+// ============================================================================
+// PATCH Handler - Rename
+// ============================================================================
+
+export const PATCH = withErrorHandling('Conversation', async (req: NextRequest, { params }: RouteContext) => {
+  const { ownerId } = resolveOwner(req);
+
+  const body = await readJsonBody(req, CONVERSATION_BODY_LIMIT);
+  if (!body.valid) {
+    throw new InvalidRequestError('Invalid conversation request', body.error);
+  }
+  const validation = validateConversationTitle(body.data, true);
+  if (!validation.valid) {
+    throw new InvalidRequestError('Invalid conversation request', validation.error);
+  }
+
+  const conversation = await getConversationStore().rename(ownerId, params.id, validation.data!.title!);
+  if (!conversation) throw notFound(params.id);
+
+  return apiSuccess(conversation);
+}, 'Failed to rename conversation');
+
+// ============================================================================
+// DELETE Handler
+// ============================================================================
+
+export const DELETE = withErrorHandling('Conversation', async (req: NextRequest, { params }: RouteContext) => {
+  const { ownerId } = resolveOwner(req);
+  const deleted = await getConversationStore().delete(ownerId, params.id);
+  if (!deleted) throw notFound(params.id);
+
+  return apiSuccess({ id: params.id, deleted: true });
+}, 'Failed to delete conversation');
@@ -0,0 +1,50 @@
+/**
+ * Conversations API Route
+ * Lists and creates the caller's server-side conversations. Browsers are
+ * identified by an anonymous session cookie, API clients by their key.
+ */
+
+import { NextRequest } from 'next/server';
+import { getConversationStore } from '../../../lib/conversations';
+import { apiSuccess, withErrorHandling } from '../../../lib/api-handler';
+import { applySessionCookie, resolveOwner } from '../../../lib/session';
+import {
+  readJsonBody,
+  validateConversationTitle,
+  CONVERSATION_BODY_LIMIT,
+} from '../../../lib/validation';
+import { InvalidRequestError } from '../../../lib/types';
+
+export const runtime = 'nodejs';
+
+// ============================================================================
+// GET Handler - List conversations, most recently updated first
+// ============================================================================
+
+export const GET = withErrorHandling('Conversations', async (req: NextRequest) => {
+  const owner = resolveOwner(req);
+  const conversations = await getConversationStore().list(owner.ownerId);
+
+  return applySessionCookie(apiSuccess({ conversations }), owner);
+}, 'Failed to load conversations');
+
+// ============================================================================
+// POST Handler - Create a conversation
+// ============================================================================
+
+export const POST = withErrorHandling('Conversations', async (req: NextRequest) => {
+  const owner = resolveOwner(req);
+
+  const body = await readJsonBody(req, CONVERSATION_BODY_LIMIT);
+  if (!body.valid) {
+    throw new InvalidRequestError('Invalid conversation request', body.error);
+  }
+  const validation = validateConversationTitle(body.data, false);
+  if (!validation.valid) {
+    throw new InvalidRequestError('Invalid conversation request', validation.error);
+  }
+
+  const conversation = await getConversationStore().create(owner.ownerId, validation.data?.title);
+
+  return applySessionCookie(apiSuccess(conversation, { status: 201 }), owner);
+}, 'Failed to create conversation');
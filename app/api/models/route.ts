@@ -0,0 +1,32 @@
+/**
+ * Models API Route
+ * Lists the models clients may select for /api/chat
+ */
+
+import { getModelAllowlist } from '../../../lib/llm';
+import { apiSuccess, withErrorHandling } from '../../../lib/api-handler';
+import type { ModelsResponse } from '../../../lib/types';
+
+export const runtime = 'nodejs';
+
+// ============================================================================
+// GET Handler
+// ============================================================================
+
+// LLMConfigError surfaces as 500 SERVICE_ERROR "Service configuration error"
+export const GET = withErrorHandling('Models', async () => {
+  const models = getModelAllowlist();
+
+  const response: ModelsResponse = {
+    models: models.map(m => ({
+      id: m.id,
+      label: m.label,
+      contextWindow: m.contextWindow,
+      maxOutputTokens: m.maxOutputTokens,
+      pricing: m.pricing,
+    })),
+    defaultModel: models[0].id,
+  };
+
+  return apiSuccess(response);
+}, 'Failed to load models');
@@ -0,0 +1,65 @@
+/**
+ * Founder Profile API Route
+ * Reads and edits the caller's founder profile. Fields are also inferred from
+ * chat; values entered here take precedence and are never overwritten by
+ * inference.
+ */
+
+import { NextRequest } from 'next/server';
+import { getProfileStore, mergeProfile } from '../../../lib/profiles';
+import { apiSuccess, withErrorHandling } from '../../../lib/api-handler';
+import { applySessionCookie, resolveOwner } from '../../../lib/session';
+import {
+  readJsonBody,
+  validateProfileUpdate,
+  PROFILE_BODY_LIMIT,
+} from '../../../lib/validation';
+import { InvalidRequestError } from '../../../lib/types';
+
+export const runtime = 'nodejs';
+
+// ============================================================================
+// GET Handler - The caller's profile, or null before anything is known
+// ============================================================================
+
+export const GET = withErrorHandling('Profile', async (req: NextRequest) => {
+  const owner = resolveOwner(req);
+  const profile = await getProfileStore().get(owner.ownerId);
+
+  return applySessionCookie(apiSuccess({ profile }), owner);
+}, 'Failed to load profile');
+
+// ============================================================================
+// PUT Handler - Set or clear (null) individual fields
+// ============================================================================
+
+export const PUT = withErrorHandling('Profile', async (req: NextRequest) => {
+  const owner = resolveOwner(req);
+
+  const body = await readJsonBody(req, PROFILE_BODY_LIMIT);
+  if (!body.valid) {
+    throw new InvalidRequestError('Invalid profile request', body.error);
+  }
+  const validation = validateProfileUpdate(body.data);
+  if (!validation.valid) {
+    throw new InvalidRequestError('Invalid profile request', validation.error);
+  }
+
+  const store = getProfileStore();
+  const current = await store.get(owner.ownerId);
+  const updated = mergeProfile(current, validation.data!, 'user');
+  const profile = updated ? await store.save(owner.ownerId, updated) : current;
+
+  return applySessionCookie(apiSuccess({ profile }), owner);
+}, 'Failed to save profile');
+
+// ============================================================================
+// DELETE Handler - Forget the profile, including inferred fields
+// ============================================================================
+
+export const DELETE = withErrorHandling('Profile', async (req: NextRequest) => {
+  const { ownerId } = resolveOwner(req);
+  const deleted = await getProfileStore().delete(ownerId);
+
+  return apiSuccess({ deleted });
+}, 'Failed to delete profile');
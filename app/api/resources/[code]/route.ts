@@ -0,0 +1,39 @@
+/**
+ * Resource Detail API Route
+ * Returns full markdown content, passage line ranges, metadata and related
+ * resources for one code
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  getKnowledgeBase,
+  ApiResourceResponse,
+} from '../../../../lib/knowledge';
+import { apiSuccess, withErrorHandling } from '../../../../lib/api-handler';
+
+export const runtime = 'nodejs';
+
+// ============================================================================
+// GET Handler
+// ============================================================================
+
+export const GET = withErrorHandling('Resource', async (
+  _request: NextRequest,
+  { params }: { params: { code: string } }
+) => {
+  const kb = getKnowledgeBase();
+  await kb.initialize();
+
+  // Throws ResourceNotFoundError (404 NOT_FOUND) for unknown codes
+  const resource = await kb.loadResource(params.code);
+  const { content, chunks, ...meta } = resource;
+
+  const response: ApiResourceResponse = {
+    meta,
+    content,
+    chunks: chunks?.map(({ text: _text, ...boundary }) => boundary),
+    related: kb.getRelatedResources(meta.code),
+  };
+
+  return apiSuccess(response);
+}, 'Failed to load resource');
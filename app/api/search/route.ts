@@ -0,0 +1,121 @@
+/**
+ * Search API Route
+ * Filtered, paginated search over the knowledge index with facet counts
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  getKnowledgeBase,
+  CATEGORIES,
+  Category,
+  FounderStage,
+  ResourceType,
+  SearchFilters,
+  ApiSearchRequest,
+  ApiSearchResponse,
+  InvalidQueryError,
+} from '../../../lib/knowledge';
+import { getClientIp } from '../../../lib/client-ip';
+import { apiSuccess, withErrorHandling } from '../../../lib/api-handler';
+import {
+  checkRateLimit,
+  applyRateLimitHeaders,
+  rateLimitExceededResponse,
+} from '../../../lib/rate-limit';
+
+export const runtime = 'nodejs';
+
+const STAGES: FounderStage[] = ['pre-idea', 'idea', 'building', 'launched', 'scaling', 'all'];
+const TYPES: ResourceType[] = ['essay', 'video', 'podcast'];
+
+// ============================================================================
+// Query Parsing
+// ============================================================================
+
+function parseInteger(name: string, value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidQueryError(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+function parseSearchParams(searchParams: URLSearchParams): ApiSearchRequest {
+  const category = searchParams.get('category') || undefined;
+  const stage = searchParams.get('stage') || undefined;
+  const type = searchParams.get('type') || undefined;
+
+  if (category && !CATEGORIES.includes(category as Category)) {
+    throw new InvalidQueryError(`Unknown category: ${category}`);
+  }
+  if (stage && !STAGES.includes(stage as FounderStage)) {
+    throw new InvalidQueryError(`Unknown stage: ${stage}`);
+  }
+  if (type && !TYPES.includes(type as ResourceType)) {
+    throw new InvalidQueryError(`Unknown type: ${type}`);
+  }
+
+  const limit = parseInteger('limit', searchParams.get('limit'));
+  if (limit === 0) {
+    throw new InvalidQueryError('limit must be greater than 0');
+  }
+
+  return {
+    q: searchParams.get('q')?.trim() || '',
+    category: category as Category | undefined,
+    stage: stage as FounderStage | undefined,
+    author: searchParams.get('author') || undefined,
+    type: type as ResourceType | undefined,
+    semantic: searchParams.get('semantic') === 'true',
+    limit,
+    offset: parseInteger('offset', searchParams.get('offset')),
+  };
+}
+
+function toFilters(request: ApiSearchRequest): SearchFilters {
+  const filters: SearchFilters = {};
+  if (request.category) filters.categories = [request.category];
+  if (request.stage) filters.stages = [request.stage];
+  if (request.author) filters.authors = [request.author];
+  if (request.type) filters.types = [request.type];
+  return filters;
+}
+
+// ============================================================================
+// GET Handler
+// ============================================================================
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const rateLimit = await checkRateLimit(getClientIp(request.headers), 'search');
+  if (!rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  return applyRateLimitHeaders(await search(request), rateLimit);
+}
+
+const search = withErrorHandling('Search', async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url);
+  const searchRequest = parseSearchParams(searchParams);
+
+  const kb = getKnowledgeBase();
+  await kb.initialize();
+
+  const result = await kb.quickSearch(searchRequest.q, {
+    filters: toFilters(searchRequest),
+    limit: searchRequest.limit,
+    offset: searchRequest.offset,
+    semantic: searchRequest.semantic,
+  });
+
+  const response: ApiSearchResponse = {
+    results: result.resources,
+    total: result.total,
+    query: searchRequest.q,
+    facets: result.facets,
+    executionTimeMs: result.executionTimeMs,
+  };
+
+  return apiSuccess(response);
+}, 'Failed to search resources');
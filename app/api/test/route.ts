@@ -1,8 +1,9 @@
-import { NextResponse } from 'next/server';
+import { apiSuccess } from '../../../lib/api-handler';
 
 export async function GET() {
-  return NextResponse.json({
+  return apiSuccess({
     status: 'ok',
+    llm_provider: process.env.LLM_PROVIDER || 'openrouter',
     openrouter_key_exists: !!process.env.OPENROUTER_API_KEY,
     openrouter_key_length: process.env.OPENROUTER_API_KEY?.length,
     timestamp: new Date().toISOString(),
@@ -0,0 +1,45 @@
+/**
+ * Usage API Route
+ * Token usage and estimated spend aggregated for the calling client, plus the
+ * remaining daily quota when the caller authenticates with an API key
+ */
+
+import { NextRequest } from 'next/server';
+import { getClientIp } from '../../../lib/client-ip';
+import { getClientUsage } from '../../../lib/usage';
+import { apiSuccess } from '../../../lib/api-handler';
+import {
+  extractApiKey,
+  findApiKey,
+  getQuotaStatus,
+  applyQuotaHeaders,
+  invalidApiKeyResponse,
+} from '../../../lib/quota';
+
+export const runtime = 'nodejs';
+
+// ============================================================================
+// GET Handler
+// ============================================================================
+
+export async function GET(req: NextRequest): Promise<Response> {
+  const presentedKey = extractApiKey(req.headers);
+  const apiKey = presentedKey ? findApiKey(presentedKey) : undefined;
+  if (presentedKey && !apiKey) {
+    return invalidApiKeyResponse();
+  }
+
+  // Keyed requests are aggregated under the key name rather than the caller's IP
+  const clientId = apiKey ? `key:${apiKey.name}` : getClientIp(req.headers);
+  const usage = getClientUsage(clientId);
+  const quota = apiKey ? getQuotaStatus(apiKey) : null;
+
+  const response = apiSuccess({
+    clientId,
+    totals: usage?.totals || { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 },
+    byModel: usage?.byModel || {},
+    since: usage ? new Date(usage.firstSeen).toISOString() : null,
+    quota,
+  });
+  return quota ? applyQuotaHeaders(response, quota) : response;
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ChevronRight, ChevronDown, MessageSquare } from 'lucide-react';
+import { fetchApi } from '@/lib/api-client';
+import type {
+  ApiCategoriesResponse,
+  ApiSearchResponse,
+  CategoryInfo,
+  ResourceMeta,
+} from '@/lib/knowledge/types';
+
+export const CATEGORY_LABELS: Record<string, string> = {
+  'accelerator': '🚀 YC 与加速器',
+  'admin': '📋 行政事务',
+  'ai': '🤖 人工智能',
+  'avoiding-failure': '⚠️ 避免失败',
+  'b2b': '🏢 B2B',
+  'biotech': '🧬 生物科技',
+  'building': '🛠️ 产品构建',
+  'career': '🧭 职业发展',
+  'case-study': '📖 案例研究',
+  'co-founders': '👥 联合创始人',
+  'crypto': '🪙 加密货币',
+  'culture': '🌱 公司文化',
+  'customers': '🤝 客户',
+  'deep-tech': '🔬 硬科技',
+  'design': '🎨 设计',
+  'engineering': '⚙️ 工程',
+  'finance': '📊 财务',
+  'founder-interview': '🎙️ 创始人访谈',
+  'fundraising': '💰 融资',
+  'general': '📚 综合',
+  'getting-started': '💡 起步',
+  'governance': '⚖️ 公司治理',
+  'growth': '📈 增长',
+  'hiring': '🎯 招聘',
+  'launching': '🛫 产品发布',
+  'leadership': '🧑‍✈️ 领导力',
+  'metrics': '📏 指标',
+  'mindset': '🧠 创业心态',
+  'pivoting': '🔄 转型',
+  'pricing': '🏷️ 定价',
+  'scaling': '🏗️ 规模化',
+};
+
+/** /api/search 单页上限 */
+const PAGE_SIZE = 50;
+
+interface CategoryBrowserProps {
+  onScope: (category: CategoryInfo) => void;
+}
+
+export default function CategoryBrowser({ onScope }: CategoryBrowserProps) {
+  const [categories, setCategories] = useState<CategoryInfo[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [resources, setResources] = useState<Record<string, ResourceMeta[]>>({});
+  const [failed, setFailed] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    fetchApi<ApiCategoriesResponse>('/api/categories')
+      .then(data => setCategories(
+        data.categories
+          .filter(c => c.count > 0)
+          .sort((a, b) => b.count - a.count)
+      ))
+      .catch(err => {
+        console.error('Failed to load categories:', err);
+        setError(true);
+      });
+  }, []);
+
+  // 分页拉取整个分类；失败不缓存，可重试
+  const loadResources = async (id: string) => {
+    setFailed(prev => ({ ...prev, [id]: false }));
+    try {
+      const loaded: ResourceMeta[] = [];
+      let total = Infinity;
+      while (loaded.length < total) {
+        const data = await fetchApi<ApiSearchResponse>(
+          `/api/search?category=${encodeURIComponent(id)}&limit=${PAGE_SIZE}&offset=${loaded.length}`
+        );
+        total = data.total;
+        if (data.results.length === 0) break;
+        loaded.push(...data.results);
+      }
+      setResources(prev => ({ ...prev, [id]: loaded }));
+    } catch (err) {
+      console.error('Failed to load category resources:', err);
+      setFailed(prev => ({ ...prev, [id]: true }));
+    }
+  };
+
+  const toggleCategory = (id: string) => {
+    if (expanded === id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(id);
+    if (!resources[id]) loadResources(id);
+  };
+
+  if (error) {
+    return <p className="px-3 text-sm text-gray-500">分类加载失败，请刷新重试</p>;
+  }
+
+  if (categories.length === 0) {
+    return <p className="px-3 text-sm text-gray-400">加载中...</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {categories.map(category => (
+        <div key={category.id}>
+          <button
+            onClick={() => toggleCategory(category.id)}
+            className="w-full flex items-center gap-1 px-3 py-2 text-sm text-gray-700 hover:bg-orange-100 hover:text-orange-700 rounded-lg transition-colors"
+          >
+            {expanded === category.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            <span className="flex-1 text-left truncate">{CATEGORY_LABELS[category.id] || category.name}</span>
+            <span className="text-xs text-gray-400">{category.count}</span>
+          </button>
+
+          {expanded === category.id && (
+            <div className="ml-5 mt-1 mb-2 space-y-1">
+              <button
+                onClick={() => onScope(category)}
+                className="w-full flex items-center gap-1.5 px-2 py-1.5 text-xs font-medium text-orange-700 bg-orange-50 border border-orange-200 rounded-lg hover:bg-orange-100"
+              >
+                <MessageSquare size={12} />
+                在此分类中提问
+              </button>
+              {failed[category.id] ? (
+                <p className="px-2 text-xs text-gray-500">
+                  资源加载失败，
+                  <button onClick={() => loadResources(category.id)} className="text-orange-700 hover:underline">
+                    重试
+                  </button>
+                </p>
+              ) : !resources[category.id] ? (
+                <p className="px-2 text-xs text-gray-400">加载中...</p>
+              ) : (
+                resources[category.id].map(r => (
+                  <a
+                    key={r.code}
+                    href={r.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block px-2 py-1 text-xs text-gray-600 hover:text-orange-700 rounded"
+                  >
+                    <span className="line-clamp-2">{r.title}</span>
+                    <span className="text-gray-400">{r.author}</span>
+                  </a>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -9,15 +9,48 @@ import {
   X, 
   Copy, 
   RotateCcw, 
-  Trash2
+  Plus,
+  Square,
+  Tag
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
+import { readChatStream, isEventStream } from '@/lib/chat-stream';
+import { fetchApi, readApiResponse, ApiRequestError } from '@/lib/api-client';
+import { CHAT_REQUEST_LIMITS, fitHistory } from '@/lib/validation';
+import { linkCitations, parseCitationHref, type CitationTarget } from '@/lib/citation-parser';
+import {
+  ErrorCode,
+  type Message,
+  type ModelOption,
+  type ModelsResponse,
+  type ChatResponse,
+  type Conversation,
+  type ConversationSummary,
+} from '@/lib/types';
+import type { CategoryInfo } from '@/lib/knowledge/types';
+import CategoryBrowser, { CATEGORY_LABELS } from './CategoryBrowser';
+import ConversationList from './ConversationList';
+import FounderProfilePanel from './FounderProfilePanel';
+import CitationCheck from './CitationCheck';
+import SourceCards from './SourceCards';
+import SourceReader from './SourceReader';
+import { markdownComponents, MarkdownLink } from './markdown';
+
+// 按错误码给出提示
+function describeError(code?: string): string {
+  switch (code) {
+    case ErrorCode.QUOTA_EXCEEDED:
+      return '今日额度已用完，请明天再来。';
+    case ErrorCode.INVALID_REQUEST:
+      return '请求无效，请修改问题后重试。';
+    case ErrorCode.TIMEOUT:
+      return '请求超时，请稍后重试。';
+    case ErrorCode.UNAUTHORIZED:
+      return '访问凭证无效。';
+    default:
+      return '抱歉，出现了错误。请稍后重试。';
+  }
 }
 
 const TOPICS = [
@@ -30,12 +63,10 @@ const TOPICS = [
   { id: 'mindset', label: '🧠 创业心态', prompt: '如何保持创业动力？' },
 ];
 
-export default function Chat() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content: `你好！我是 **YC Advisor**，你的创业咨询助手。
+const WELCOME_MESSAGE: Message = {
+  id: 'welcome',
+  role: 'assistant',
+  content: `你好！我是 **YC Advisor**，你的创业咨询助手。
 
 我基于 **Y Combinator** 的 443+ 个精选资源为你提供建议，包括：
 - Paul Graham 的经典文章
@@ -43,28 +74,177 @@ export default function Chat() {
 - 成功创始人的实战经验
 
 你可以问我任何关于创业的问题，或者点击下方的话题开始！`,
-    },
-  ]);
+};
+
+// 刷新页面后恢复的会话
+const ACTIVE_CONVERSATION_KEY = 'yc-advisor:conversation';
+
+export default function Chat() {
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [sidebarTab, setSidebarTab] = useState<'topics' | 'categories' | 'history' | 'profile'>('topics');
+  const [scopedCategory, setScopedCategory] = useState<CategoryInfo | null>(null);
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string>('');
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationsLoading, setConversationsLoading] = useState(true);
+  const [readerTarget, setReaderTarget] = useState<CitationTarget | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const sendMessage = async (text: string) => {
-    if (!text.trim() || isLoading) return;
+  // 卸载时中止进行中的请求
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // 限流冷却倒计时
+  useEffect(() => {
+    if (!cooldownUntil) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= cooldownUntil) setCooldownUntil(null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
+
+  const cooldownSeconds = cooldownUntil ? Math.max(0, Math.ceil((cooldownUntil - now) / 1000)) : 0;
+
+  // 加载可选模型列表
+  useEffect(() => {
+    fetchApi<ModelsResponse>('/api/models')
+      .then(data => {
+        setModels(data.models);
+        setSelectedModel(data.defaultModel);
+      })
+      .catch(() => {
+        // 模型列表不可用时使用服务端默认模型
+      });
+  }, []);
+
+  const loadConversations = () => {
+    fetchApi<{ conversations: ConversationSummary[] }>('/api/conversations')
+      .then(data => setConversations(data.conversations))
+      .catch(err => console.error('Failed to load conversations:', err))
+      .finally(() => setConversationsLoading(false));
+  };
+
+  const selectConversation = (id: string | null) => {
+    setConversationId(id);
+    if (id) {
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    if (isLoading) return;
+    try {
+      const conversation = await fetchApi<Conversation>(`/api/conversations/${encodeURIComponent(id)}`);
+      setMessages([
+        WELCOME_MESSAGE,
+        ...conversation.messages.map(m => ({
+          id: m.id,
+          role: m.role,
+          content: m.content,
+          resources: m.resources,
+          chunks: m.chunks,
+          citations: m.citations,
+          model: m.model,
+        })),
+      ]);
+      selectConversation(conversation.id);
+      setSidebarOpen(false);
+    } catch (err) {
+      console.error('Failed to open conversation:', err);
+      // 会话已被删除时不再自动恢复
+      if (err instanceof ApiRequestError && err.code === ErrorCode.NOT_FOUND) {
+        selectConversation(null);
+      }
+    }
+  };
+
+  // 加载历史对话，并恢复刷新前的会话
+  useEffect(() => {
+    loadConversations();
+    const activeId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    if (activeId) openConversation(activeId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const renameConversation = async (conversation: ConversationSummary) => {
+    const title = prompt('重命名对话', conversation.title)?.trim();
+    if (!title || title === conversation.title) return;
+    try {
+      await fetchApi<Conversation>(`/api/conversations/${encodeURIComponent(conversation.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+      loadConversations();
+    } catch (err) {
+      console.error('Failed to rename conversation:', err);
+    }
+  };
+
+  const deleteConversation = async (conversation: ConversationSummary) => {
+    if (!confirm(`确定删除「${conversation.title}」？`)) return;
+    try {
+      await fetchApi(`/api/conversations/${encodeURIComponent(conversation.id)}`, { method: 'DELETE' });
+      if (conversation.id === conversationId) startNewChat();
+      loadConversations();
+    } catch (err) {
+      console.error('Failed to delete conversation:', err);
+    }
+  };
+
+  // 创建服务端会话；失败时本次提问不保存
+  const ensureConversation = async (): Promise<string | null> => {
+    if (conversationId) return conversationId;
+    try {
+      const conversation = await fetchApi<Conversation>('/api/conversations', { method: 'POST' });
+      selectConversation(conversation.id);
+      return conversation.id;
+    } catch (err) {
+      console.error('Failed to create conversation:', err);
+      return null;
+    }
+  };
+
+  // previous 为本次提问之前的消息；重新生成时不含被替换的问答
+  const sendMessage = async (text: string, regenerate = false, previous: Message[] = messages) => {
+    if (!text.trim() || isLoading || cooldownSeconds > 0) return;
 
     const userMsg: Message = {
       id: Date.now().toString(),
       role: 'user',
       content: text,
     };
+    const assistantId = (Date.now() + 1).toString();
+
+    // 首个事件到达时插入助手消息，之后按 id 原地更新
+    const updateAssistant = (update: (msg: Message) => Message) => {
+      setMessages(prev => {
+        const idx = prev.findIndex(m => m.id === assistantId);
+        if (idx === -1) {
+          return [...prev, update({ id: assistantId, role: 'assistant', content: '' })];
+        }
+        const next = [...prev];
+        next[idx] = update(prev[idx]);
+        return next;
+      });
+    };
 
     setMessages(prev => [...prev, userMsg]);
     setInput('');
@@ -74,42 +254,113 @@ export default function Chat() {
       textareaRef.current.style.height = 'auto';
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let received = '';
+    let activeId: string | null = null;
+
     try {
+      activeId = await ensureConversation();
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           message: text,
-          history: messages.slice(-6).map(m => ({ role: m.role, content: m.content })),
+          // 有会话时服务端从会话读取历史
+          history: activeId ? undefined : fitHistory(previous, text),
+          category: scopedCategory?.id,
+          model: selectedModel || undefined,
+          conversationId: activeId || undefined,
+          regenerate: activeId && regenerate ? true : undefined,
         }),
+        signal: controller.signal,
       });
 
-      if (!response.ok) throw new Error('API Error');
-
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(data.error);
+      // 错误以及没有找到资源时服务端直接返回 JSON
+      if (!isEventStream(response)) {
+        const data = await readApiResponse<ChatResponse>(response);
+        updateAssistant(msg => ({
+          ...msg,
+          content: data.text || '抱歉，没有收到回复。',
+          resources: data.resources,
+          chunks: data.chunks,
+          citations: data.citations,
+          model: data.model,
+        }));
+        return;
       }
 
-      const assistantMsg: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.text || '抱歉，没有收到回复。',
-      };
-      setMessages(prev => [...prev, assistantMsg]);
+      let streamError: { error: string; code?: string } | null = null;
+
+      await readChatStream(response, event => {
+        switch (event.type) {
+          case 'metadata':
+            updateAssistant(msg => ({ ...msg, resources: event.resources, chunks: event.chunks }));
+            break;
+          case 'content':
+            received += event.chunk;
+            updateAssistant(msg => ({ ...msg, content: msg.content + event.chunk }));
+            break;
+          case 'citations': {
+            const { type: _type, ...citations } = event;
+            updateAssistant(msg => ({ ...msg, citations }));
+            break;
+          }
+          case 'error':
+            streamError = { error: event.error, code: event.code };
+            break;
+          case 'done':
+            updateAssistant(msg => ({ ...msg, model: event.model }));
+            break;
+        }
+      });
+
+      if (streamError) {
+        console.error('Stream error:', streamError);
+        const { code } = streamError;
+        updateAssistant(msg => ({
+          ...msg,
+          content: received
+            ? `${msg.content}\n\n> ⚠️ 回答中断，请点击重新生成。`
+            : describeError(code),
+        }));
+      } else if (!received) {
+        updateAssistant(msg => ({ ...msg, content: '抱歉，没有收到回复。' }));
+      }
     } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        updateAssistant(msg => ({
+          ...msg,
+          content: received ? `${msg.content}\n\n*（已停止生成）*` : '已停止生成。',
+        }));
+        return;
+      }
+      if (err instanceof ApiRequestError && err.code === ErrorCode.RATE_LIMITED) {
+        const retryAfter = err.retryAfter || 60;
+        setNow(Date.now());
+        setCooldownUntil(Date.now() + retryAfter * 1000);
+        updateAssistant(msg => ({
+          ...msg,
+          content: `⏳ 提问有点太频繁了，请休息 ${retryAfter} 秒后再试。`,
+        }));
+        return;
+      }
       console.error('Chat error:', err);
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
-        role: 'assistant',
-        content: '抱歉，出现了错误。请稍后重试。',
-      }]);
+      updateAssistant(msg => ({
+        ...msg,
+        content: describeError(err instanceof ApiRequestError ? err.code : undefined),
+      }));
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
+      if (activeId) loadConversations();
     }
   };
 
+  const stopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
     sendMessage(input);
@@ -144,27 +395,17 @@ export default function Chat() {
     const lastUserIndex = messages.length - 1 - [...messages].reverse().findIndex(m => m.role === 'user');
     if (lastUserIndex >= 0) {
       const lastUser = messages[lastUserIndex];
-      // 删除该用户消息之后的所有消息（通常是助手回复）
-      setMessages(prev => prev.slice(0, lastUserIndex + 1));
-      sendMessage(lastUser.content);
+      // 删除该用户消息及之后的回复，由 sendMessage 重新追加
+      setMessages(prev => prev.slice(0, lastUserIndex));
+      sendMessage(lastUser.content, true, messages.slice(0, lastUserIndex));
     }
   };
 
-  const clearChat = () => {
-    if (confirm('确定清空对话？')) {
-      setMessages([{
-        id: 'welcome',
-        role: 'assistant',
-        content: `你好！我是 **YC Advisor**，你的创业咨询助手。
-
-我基于 **Y Combinator** 的 443+ 个精选资源为你提供建议，包括：
-- Paul Graham 的经典文章
-- YC 合伙人的最新观点
-- 成功创始人的实战经验
-
-你可以问我任何关于创业的问题，或者点击下方的话题开始！`,
-      }]);
-    }
+  // 开始新对话；之前的对话保留在历史列表中
+  const startNewChat = () => {
+    if (isLoading) return;
+    setMessages([WELCOME_MESSAGE]);
+    selectConversation(null);
   };
 
   return (
@@ -192,33 +433,66 @@ export default function Chat() {
           </div>
         </div>
 
-        {/* 话题 */}
+        {/* 侧栏标签切换 */}
+        <div className="flex gap-1 px-4 pt-4">
+          {([['topics', '热门话题'], ['categories', '分类浏览'], ['history', '历史对话'], ['profile', '我的档案']] as const).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setSidebarTab(tab)}
+              className={`flex-1 px-2 py-1.5 text-xs font-semibold rounded-lg transition-colors ${sidebarTab === tab ? 'bg-orange-500 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         <div className="flex-1 overflow-y-auto p-4">
-          <p className="text-xs font-semibold text-gray-400 uppercase mb-3">热门话题</p>
-          <div className="space-y-1">
-            {TOPICS.map(topic => (
-              <button
-                key={topic.id}
-                onClick={() => {
-                  sendMessage(topic.prompt);
-                  setSidebarOpen(false);
-                }}
-                className="w-full text-left px-3 py-2.5 text-sm text-gray-700 hover:bg-orange-100 hover:text-orange-700 rounded-lg transition-colors"
-              >
-                {topic.label}
-              </button>
-            ))}
-          </div>
+          {sidebarTab === 'profile' ? (
+            <FounderProfilePanel />
+          ) : sidebarTab === 'history' ? (
+            <ConversationList
+              conversations={conversations}
+              activeId={conversationId}
+              loading={conversationsLoading}
+              onOpen={openConversation}
+              onRename={renameConversation}
+              onDelete={deleteConversation}
+            />
+          ) : sidebarTab === 'categories' ? (
+            <CategoryBrowser
+              onScope={category => {
+                setScopedCategory(category);
+                setSidebarOpen(false);
+                textareaRef.current?.focus();
+              }}
+            />
+          ) : (
+            <div className="space-y-1">
+              {TOPICS.map(topic => (
+                <button
+                  key={topic.id}
+                  onClick={() => {
+                    sendMessage(topic.prompt);
+                    setSidebarOpen(false);
+                  }}
+                  className="w-full text-left px-3 py-2.5 text-sm text-gray-700 hover:bg-orange-100 hover:text-orange-700 rounded-lg transition-colors"
+                >
+                  {topic.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
-        {/* 清空 */}
+        {/* 新对话 */}
         <div className="p-4 border-t border-gray-200">
           <button
-            onClick={clearChat}
-            className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            onClick={startNewChat}
+            disabled={isLoading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-gray-600 hover:text-orange-600 hover:bg-orange-50 rounded-lg transition-colors disabled:opacity-50"
           >
-            <Trash2 size={16} />
-            清空对话
+            <Plus size={16} />
+            新对话
           </button>
         </div>
       </aside>
@@ -251,39 +525,57 @@ export default function Chat() {
                 <div className={`rounded-2xl px-4 py-3 ${msg.role === 'user' ? 'bg-orange-500 text-white ml-auto' : 'bg-gray-50 border border-gray-200'}`}>
                   {msg.role === 'user' ? (
                     <p className="whitespace-pre-wrap text-white">{msg.content}</p>
+                  ) : !msg.content ? (
+                    <div className="flex gap-1 py-1.5">
+                      <span className="w-2 h-2 bg-orange-500 rounded-full animate-bounce" />
+                      <span className="w-2 h-2 bg-orange-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
+                      <span className="w-2 h-2 bg-orange-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                    </div>
                   ) : (
                     <div className="max-w-none text-gray-800 markdown-content">
                       <ReactMarkdown 
                         remarkPlugins={[remarkGfm]}
                         components={{
-                          h1: ({children}) => <h1 className="text-xl font-bold text-gray-900 mt-6 mb-3 border-b border-gray-200 pb-2">{children}</h1>,
-                          h2: ({children}) => <h2 className="text-lg font-semibold text-gray-800 mt-5 mb-3">{children}</h2>,
-                          h3: ({children}) => <h3 className="text-base font-semibold text-gray-800 mt-4 mb-2">{children}</h3>,
-                          strong: ({children}) => <strong className="font-bold text-gray-900">{children}</strong>,
-                          code: ({children, className}) => {
-                            const isInline = !className;
-                            return isInline ? (
-                              <code className="bg-orange-50 text-orange-700 px-1.5 py-0.5 rounded text-sm font-mono border border-orange-200">{children}</code>
-                            ) : (
-                              <code className="text-sm font-mono">{children}</code>
+                          ...markdownComponents,
+                          // 引用标记链接到原文阅读器，其余链接在新窗口打开
+                          a: ({href, children}) => {
+                            const target = parseCitationHref(href);
+                            if (!target) return <MarkdownLink href={href}>{children}</MarkdownLink>;
+                            return (
+                              <button
+                                onClick={() => setReaderTarget(target)}
+                                title="查看原文"
+                                className="inline text-left text-orange-600 hover:text-orange-700 hover:underline font-medium"
+                              >
+                                {children}
+                              </button>
                             );
                           },
-                          pre: ({children}) => <pre className="bg-gray-900 text-gray-100 p-4 rounded-lg overflow-x-auto my-3 text-sm font-mono">{children}</pre>,
-                          ul: ({children}) => <ul className="list-disc pl-6 my-3 space-y-2">{children}</ul>,
-                          ol: ({children}) => <ol className="list-decimal pl-6 my-3 space-y-2" style={{ listStyleType: 'decimal' }}>{children}</ol>,
-                          li: ({children}) => <li className="text-gray-700 leading-relaxed">{children}</li>,
-                          p: ({children}) => <p className="mb-3 text-gray-700 leading-relaxed">{children}</p>,
-                          blockquote: ({children}) => <blockquote className="border-l-4 border-orange-400 pl-4 py-1 italic text-gray-600 my-3 bg-orange-50 rounded-r">{children}</blockquote>,
-                          a: ({href, children}) => <a href={href} className="text-orange-600 hover:text-orange-700 hover:underline font-medium" target="_blank" rel="noopener noreferrer">{children}</a>,
-                          hr: () => <hr className="my-4 border-gray-200" />,
                         }}
                       >
-                        {msg.content}
+                        {msg.resources?.length ? linkCitations(msg.content, msg.resources, msg.citations) : msg.content}
                       </ReactMarkdown>
                     </div>
                   )}
                 </div>
 
+                {/* 参考资料卡片（metadata 事件先于回答到达） */}
+                {msg.role === 'assistant' && msg.resources && msg.resources.length > 0 && (
+                  <SourceCards
+                    resources={msg.resources}
+                    chunks={msg.chunks}
+                    citations={msg.citations}
+                    onOpen={setReaderTarget}
+                  />
+                )}
+
+                {/* 引用核验（存疑时常显，不随操作按钮隐藏） */}
+                {msg.role === 'assistant' && msg.citations && (
+                  <div className="mt-1">
+                    <CitationCheck report={msg.citations} />
+                  </div>
+                )}
+
                 {/* 操作按钮 */}
                 {msg.role === 'assistant' && (
                   <div className="flex items-center gap-2 mt-1 opacity-0 hover:opacity-100 transition-opacity">
@@ -303,14 +595,19 @@ export default function Chat() {
                         重新生成
                       </button>
                     )}
+                    {msg.model && (
+                      <span className="px-2 py-1 text-xs text-gray-400">
+                        {models.find(m => m.id === msg.model)?.label || msg.model}
+                      </span>
+                    )}
                   </div>
                 )}
               </div>
             </div>
           ))}
 
-          {/* 加载中 */}
-          {isLoading && (
+          {/* 加载中（助手消息尚未开始） */}
+          {isLoading && messages[messages.length - 1]?.role === 'user' && (
             <div className="flex gap-3">
               <div className="w-8 h-8 rounded-full bg-orange-500 flex items-center justify-center">
                 <Bot size={16} className="text-white" />
@@ -330,6 +627,20 @@ export default function Chat() {
         {/* 输入 */}
         <div className="border-t border-gray-200 p-4 bg-white">
           <form onSubmit={handleSubmit} className="max-w-4xl mx-auto">
+            {scopedCategory && (
+              <div className="flex items-center gap-1.5 mb-2 text-xs text-gray-600">
+                <Tag size={12} className="text-orange-500" />
+                仅在「{CATEGORY_LABELS[scopedCategory.id] || scopedCategory.name}」分类中检索
+                <button
+                  type="button"
+                  onClick={() => setScopedCategory(null)}
+                  title="取消分类范围"
+                  className="p-0.5 text-gray-400 hover:text-gray-700"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            )}
             <div className="flex items-end gap-2 bg-gray-100 rounded-xl p-2 border border-gray-200 focus-within:border-orange-300 focus-within:ring-2 focus-within:ring-orange-100 transition-all">
               <textarea
                 ref={textareaRef}
@@ -338,21 +649,57 @@ export default function Chat() {
                 onKeyDown={handleKeyDown}
                 placeholder="输入你的创业问题..."
                 rows={1}
+                maxLength={CHAT_REQUEST_LIMITS.maxMessageLength}
                 disabled={isLoading}
                 className="flex-1 bg-transparent border-0 resize-none px-3 py-2 focus:outline-none text-gray-800 placeholder-gray-400 min-h-[44px] max-h-[150px]"
               />
-              <button
-                type="submit"
-                disabled={isLoading || !input.trim()}
-                className="p-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                <Send size={18} />
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stopGeneration}
+                  title="停止生成"
+                  className="p-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors"
+                >
+                  <Square size={18} />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim() || cooldownSeconds > 0}
+                  className="p-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Send size={18} />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center justify-center gap-3 mt-2 text-xs text-gray-400">
+              {models.length > 1 && (
+                <select
+                  value={selectedModel}
+                  onChange={(e) => setSelectedModel(e.target.value)}
+                  disabled={isLoading}
+                  title="选择模型"
+                  className="bg-transparent border border-gray-200 rounded px-1.5 py-0.5 text-gray-600 focus:outline-none focus:border-orange-300"
+                >
+                  {models.map(m => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                  ))}
+                </select>
+              )}
+              {cooldownSeconds > 0 ? (
+                <p className="text-orange-500">请求过于频繁，{cooldownSeconds} 秒后可以继续提问</p>
+              ) : (
+                <p>按 Enter 发送，Shift + Enter 换行</p>
+              )}
             </div>
-            <p className="text-xs text-gray-400 text-center mt-2">按 Enter 发送，Shift + Enter 换行</p>
           </form>
         </div>
       </main>
+
+      {/* 原文阅读器 */}
+      {readerTarget && (
+        <SourceReader target={readerTarget} onClose={() => setReaderTarget(null)} />
+      )}
     </div>
   );
 }
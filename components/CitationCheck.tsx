@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import type { CitationReport, CitationStatus } from '@/lib/types';
+
+interface CitationCheckProps {
+  report: CitationReport;
+}
+
+const STATUS_LABELS: Record<CitationStatus, string> = {
+  verified: '已核验',
+  mismatched: '与资料不符',
+  unknown: '未在资料中找到',
+};
+
+export default function CitationCheck({ report }: CitationCheckProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (report.status === 'none') return null;
+
+  const flagged = report.citations.filter(c => c.status !== 'verified');
+  const missingQuotes = report.quotes.filter(q => !q.found);
+  const problems = flagged.length + missingQuotes.length;
+
+  if (problems === 0) {
+    return (
+      <span className="flex items-center gap-1 px-2 py-1 text-xs text-green-600" title="回答中的引用均来自本次检索到的资料">
+        <ShieldCheck size={12} />
+        引用已核验
+      </span>
+    );
+  }
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 px-2 py-1 text-amber-600 hover:text-amber-700"
+      >
+        <ShieldAlert size={12} />
+        {problems} 处引用无法核验
+      </button>
+      {expanded && (
+        <ul className="mt-1 ml-2 space-y-1 text-gray-500">
+          {flagged.map(c => (
+            <li key={c.raw}>
+              <span className="text-gray-700">{c.raw}</span>：{STATUS_LABELS[c.status]}
+            </li>
+          ))}
+          {missingQuotes.map(q => (
+            <li key={q.text}>
+              引述「<span className="text-gray-700">{q.text}</span>」未在原文中找到
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { MessageSquare, Pencil, Trash2 } from 'lucide-react';
+import type { ConversationSummary } from '@/lib/types';
+
+interface ConversationListProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  loading: boolean;
+  onOpen: (id: string) => void;
+  onRename: (conversation: ConversationSummary) => void;
+  onDelete: (conversation: ConversationSummary) => void;
+}
+
+// 今天显示时间，更早显示日期
+function formatUpdatedAt(iso: string): string {
+  const date = new Date(iso);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric' });
+}
+
+export default function ConversationList({
+  conversations,
+  activeId,
+  loading,
+  onOpen,
+  onRename,
+  onDelete,
+}: ConversationListProps) {
+  if (loading && conversations.length === 0) {
+    return <p className="px-3 text-sm text-gray-400">加载中...</p>;
+  }
+
+  if (conversations.length === 0) {
+    return <p className="px-3 text-sm text-gray-400">还没有历史对话</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {conversations.map(conversation => (
+        <div
+          key={conversation.id}
+          className={`group flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${conversation.id === activeId ? 'bg-orange-100 text-orange-700' : 'text-gray-700 hover:bg-gray-100'}`}
+        >
+          <button
+            onClick={() => onOpen(conversation.id)}
+            className="flex-1 flex items-center gap-2 min-w-0 text-left text-sm"
+          >
+            <MessageSquare size={14} className="flex-shrink-0 text-gray-400" />
+            <span className="truncate">{conversation.title}</span>
+          </button>
+          <span className="text-xs text-gray-400 group-hover:hidden">
+            {formatUpdatedAt(conversation.updatedAt)}
+          </span>
+          <div className="hidden group-hover:flex items-center gap-1">
+            <button
+              onClick={() => onRename(conversation)}
+              title="重命名"
+              className="p-1 text-gray-400 hover:text-gray-700"
+            >
+              <Pencil size={12} />
+            </button>
+            <button
+              onClick={() => onDelete(conversation)}
+              title="删除"
+              className="p-1 text-gray-400 hover:text-red-600"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { fetchApi, ApiRequestError } from '@/lib/api-client';
+import {
+  FUNDRAISING_LABELS,
+  PROFILE_LIMITS,
+  STAGE_LABELS,
+} from '@/lib/profiles/utils';
+import {
+  ErrorCode,
+  type FounderProfile,
+  type FounderProfileUpdate,
+  type FundraisingStatus,
+  type ProfileField,
+  type ProfileStage,
+} from '@/lib/types';
+
+interface ProfileForm {
+  stage: string;
+  industry: string;
+  teamSize: string;
+  fundraising: string;
+  location: string;
+}
+
+const EMPTY_FORM: ProfileForm = { stage: '', industry: '', teamSize: '', fundraising: '', location: '' };
+
+function toForm(profile: FounderProfile | null): ProfileForm {
+  if (!profile) return EMPTY_FORM;
+  return {
+    stage: profile.stage || '',
+    industry: profile.industry || '',
+    teamSize: profile.teamSize !== undefined ? String(profile.teamSize) : '',
+    fundraising: profile.fundraising || '',
+    location: profile.location || '',
+  };
+}
+
+// 空值表示清除该字段
+function toUpdate(form: ProfileForm): FounderProfileUpdate {
+  return {
+    stage: (form.stage || null) as ProfileStage | null,
+    industry: form.industry.trim() || null,
+    teamSize: form.teamSize ? Number(form.teamSize) : null,
+    fundraising: (form.fundraising || null) as FundraisingStatus | null,
+    location: form.location.trim() || null,
+  };
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+export default function FounderProfilePanel() {
+  const [profile, setProfile] = useState<FounderProfile | null>(null);
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchApi<{ profile: FounderProfile | null }>('/api/profile')
+      .then(data => {
+        setProfile(data.profile);
+        setForm(toForm(data.profile));
+      })
+      .catch(err => {
+        console.error('Failed to load profile:', err);
+        setStatus('档案加载失败');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = (field: keyof ProfileForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setStatus(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const data = await fetchApi<{ profile: FounderProfile | null }>('/api/profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toUpdate(form)),
+      });
+      setProfile(data.profile);
+      setForm(toForm(data.profile));
+      setStatus('已保存');
+    } catch (err) {
+      console.error('Failed to save profile:', err);
+      setStatus(err instanceof ApiRequestError && err.code === ErrorCode.INVALID_REQUEST ? '请检查填写的内容' : '保存失败，请稍后重试');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const clear = async () => {
+    if (!confirm('清空档案？根据对话推断的信息也会一并删除。')) return;
+    setSaving(true);
+    try {
+      await fetchApi('/api/profile', { method: 'DELETE' });
+      setProfile(null);
+      setForm(EMPTY_FORM);
+      setStatus('已清空');
+    } catch (err) {
+      console.error('Failed to delete profile:', err);
+      setStatus('清空失败，请稍后重试');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="px-3 text-sm text-gray-400">加载中...</p>;
+  }
+
+  const label = (field: ProfileField, text: string) => (
+    <span className="flex items-center justify-between text-xs font-medium text-gray-600 mb-1">
+      {text}
+      {profile?.inferred.includes(field) && <span className="font-normal text-orange-500">根据对话推断</span>}
+    </span>
+  );
+
+  return (
+    <div className="space-y-3 px-1">
+      <p className="text-xs text-gray-500">
+        填写你的情况，回答和推荐的资料会更贴合你所处的阶段。聊天中提到的信息也会自动记录。
+      </p>
+
+      <label className="block">
+        {label('stage', '阶段')}
+        <select value={form.stage} onChange={e => update('stage', e.target.value)} className={inputClass}>
+          <option value="">未填写</option>
+          {Object.entries(STAGE_LABELS).map(([value, text]) => (
+            <option key={value} value={value}>{text}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        {label('industry', '行业 / 方向')}
+        <input
+          value={form.industry}
+          onChange={e => update('industry', e.target.value)}
+          maxLength={PROFILE_LIMITS.maxTextLength}
+          placeholder="如 B2B SaaS、AI"
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block">
+        {label('teamSize', '团队人数')}
+        <input
+          type="number"
+          min={1}
+          max={PROFILE_LIMITS.maxTeamSize}
+          value={form.teamSize}
+          onChange={e => update('teamSize', e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block">
+        {label('fundraising', '融资情况')}
+        <select value={form.fundraising} onChange={e => update('fundraising', e.target.value)} className={inputClass}>
+          <option value="">未填写</option>
+          {Object.entries(FUNDRAISING_LABELS).map(([value, text]) => (
+            <option key={value} value={value}>{text}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        {label('location', '所在地')}
+        <input
+          value={form.location}
+          onChange={e => update('location', e.target.value)}
+          maxLength={PROFILE_LIMITS.maxTextLength}
+          placeholder="如 上海、San Francisco"
+          className={inputClass}
+        />
+      </label>
+
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="flex-1 px-3 py-2 text-sm font-semibold text-white bg-orange-500 hover:bg-orange-600 rounded-lg transition-colors disabled:opacity-50"
+        >
+          保存
+        </button>
+        <button
+          onClick={clear}
+          disabled={saving || !profile}
+          className="px-3 py-2 text-sm text-gray-500 hover:text-red-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          清空
+        </button>
+      </div>
+      {status && <p className="text-xs text-gray-500">{status}</p>}
+    </div>
+  );
+}
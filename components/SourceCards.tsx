@@ -0,0 +1,68 @@
+'use client';
+
+import { FileText, Video, Mic, BookOpen } from 'lucide-react';
+import type { CitationTarget } from '@/lib/citation-parser';
+import type { ChunkRef, CitationReport, ResourceRef } from '@/lib/types';
+
+interface SourceCardsProps {
+  resources: ResourceRef[];
+  chunks?: ChunkRef[];
+  citations?: CitationReport;
+  onOpen: (target: CitationTarget) => void;
+}
+
+const TYPE_ICONS: Record<string, typeof FileText> = {
+  essay: FileText,
+  video: Video,
+  podcast: Mic,
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  essay: '文章',
+  video: '视频',
+  podcast: '播客',
+};
+
+export default function SourceCards({ resources, chunks, citations, onOpen }: SourceCardsProps) {
+  // 每个资源被引用的次数（核验通过或可对应的引用）
+  const citedCounts = new Map<string, number>();
+  for (const c of citations?.citations || []) {
+    if (c.code && c.status !== 'unknown') {
+      citedCounts.set(c.code, (citedCounts.get(c.code) || 0) + c.occurrences);
+    }
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-1.5 mb-1.5 text-xs text-gray-500">
+        <BookOpen size={12} />
+        参考资料
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {resources.map(r => {
+          const Icon = TYPE_ICONS[r.type || ''] || FileText;
+          const passages = chunks?.filter(c => c.code === r.code) || [];
+          const cited = citedCounts.get(r.code);
+          return (
+            <button
+              key={r.code}
+              onClick={() => onOpen({ code: r.code, chunkId: passages[0]?.id })}
+              className="flex items-start gap-2 p-2.5 text-left bg-white border border-gray-200 rounded-lg hover:border-orange-300 hover:bg-orange-50 transition-colors"
+            >
+              <Icon size={14} className="mt-0.5 flex-shrink-0 text-orange-500" />
+              <span className="min-w-0">
+                <span className="block text-sm font-medium text-gray-800 line-clamp-2">{r.title}</span>
+                <span className="block text-xs text-gray-500 truncate">
+                  {r.author}
+                  {r.type && ` · ${TYPE_LABELS[r.type] || r.type}`}
+                  {passages.length > 0 && ` · ${passages.length} 个片段`}
+                  {cited && ` · 引用 ${cited} 次`}
+                </span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
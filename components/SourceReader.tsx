@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { X, ExternalLink } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { fetchApi, ApiRequestError } from '@/lib/api-client';
+import type { CitationTarget } from '@/lib/citation-parser';
+import type { ApiResourceResponse } from '@/lib/knowledge/types';
+import { ErrorCode } from '@/lib/types';
+import { markdownComponents } from './markdown';
+
+interface SourceReaderProps {
+  target: CitationTarget;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  essay: '文章',
+  video: '视频',
+  podcast: '播客',
+};
+
+function Markdown({ children }: { children: string }) {
+  if (!children.trim()) return null;
+  return (
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+      {children}
+    </ReactMarkdown>
+  );
+}
+
+export default function SourceReader({ target, onClose }: SourceReaderProps) {
+  const [resource, setResource] = useState<ApiResourceResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cache = useRef(new Map<string, ApiResourceResponse>());
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const passageRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const cached = cache.current.get(target.code);
+    if (cached) {
+      setResource(cached);
+      return;
+    }
+
+    let cancelled = false;
+    setResource(null);
+    setError(null);
+    fetchApi<ApiResourceResponse>(`/api/resources/${encodeURIComponent(target.code)}`)
+      .then(data => {
+        cache.current.set(target.code, data);
+        if (!cancelled) setResource(data);
+      })
+      .catch(err => {
+        console.error('Failed to load resource:', err);
+        if (!cancelled) {
+          setError(err instanceof ApiRequestError && err.code === ErrorCode.NOT_FOUND ? '资料不存在' : '资料加载失败，请稍后重试');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [target.code]);
+
+  // 打开引用的片段时滚动到该处，否则回到开头
+  useEffect(() => {
+    if (!resource) return;
+    if (passageRef.current) {
+      passageRef.current.scrollIntoView({ block: 'start' });
+    } else {
+      bodyRef.current?.scrollTo({ top: 0 });
+    }
+  }, [resource, target.chunkId]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const chunk = target.chunkId ? resource?.chunks?.find(c => c.id === target.chunkId) : undefined;
+  const lines = resource?.content.split('\n') || [];
+
+  return (
+    <aside className="fixed inset-0 z-40 flex flex-col bg-white sm:left-auto sm:w-[32rem] sm:border-l sm:border-gray-200 sm:shadow-xl lg:static lg:z-auto lg:shadow-none">
+      <header className="flex items-start gap-2 px-4 py-3 border-b border-gray-200">
+        <div className="flex-1 min-w-0">
+          {resource ? (
+            <>
+              <h3 className="font-semibold text-gray-900 leading-snug">{resource.meta.title}</h3>
+              <p className="text-xs text-gray-500 mt-0.5">
+                {resource.meta.author} · {TYPE_LABELS[resource.meta.type] || resource.meta.type} · {resource.meta.code}
+              </p>
+            </>
+          ) : (
+            <h3 className="font-semibold text-gray-500">{error || '加载中...'}</h3>
+          )}
+        </div>
+        {resource?.meta.url && (
+          <a
+            href={resource.meta.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title="打开原始链接"
+            className="p-1.5 text-gray-400 hover:text-orange-600 rounded-lg hover:bg-gray-100"
+          >
+            <ExternalLink size={16} />
+          </a>
+        )}
+        <button
+          onClick={onClose}
+          title="关闭"
+          className="p-1.5 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100"
+        >
+          <X size={16} />
+        </button>
+      </header>
+
+      <div ref={bodyRef} className="flex-1 overflow-y-auto px-4 py-3 text-sm markdown-content">
+        {resource && target.chunkId && !chunk && (
+          <p className="mb-3 text-xs text-amber-600">未找到片段 {target.chunkId}，显示全文。</p>
+        )}
+        {resource && (chunk ? (
+          <>
+            <Markdown>{lines.slice(0, chunk.startLine - 1).join('\n')}</Markdown>
+            <div ref={passageRef} className="scroll-mt-3 my-3 px-3 py-2 bg-yellow-50 border-l-4 border-yellow-400 rounded-r">
+              <p className="mb-1 text-xs text-yellow-700">
+                引用片段 {chunk.id} · 第 {chunk.startLine}-{chunk.endLine} 行{chunk.heading ? ` · ${chunk.heading}` : ''}
+              </p>
+              <Markdown>{lines.slice(chunk.startLine - 1, chunk.endLine).join('\n')}</Markdown>
+            </div>
+            <Markdown>{lines.slice(chunk.endLine).join('\n')}</Markdown>
+          </>
+        ) : (
+          <Markdown>{resource.content}</Markdown>
+        ))}
+      </div>
+    </aside>
+  );
+}
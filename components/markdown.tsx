@@ -0,0 +1,34 @@
+import type { ReactNode } from 'react';
+import type { Components } from 'react-markdown';
+
+export function MarkdownLink({ href, children }: { href?: string; children?: ReactNode }) {
+  return (
+    <a href={href} className="text-orange-600 hover:text-orange-700 hover:underline font-medium" target="_blank" rel="noopener noreferrer">
+      {children}
+    </a>
+  );
+}
+
+// 回答与原文阅读器共用的 Markdown 样式
+export const markdownComponents: Components = {
+  h1: ({children}) => <h1 className="text-xl font-bold text-gray-900 mt-6 mb-3 border-b border-gray-200 pb-2">{children}</h1>,
+  h2: ({children}) => <h2 className="text-lg font-semibold text-gray-800 mt-5 mb-3">{children}</h2>,
+  h3: ({children}) => <h3 className="text-base font-semibold text-gray-800 mt-4 mb-2">{children}</h3>,
+  strong: ({children}) => <strong className="font-bold text-gray-900">{children}</strong>,
+  code: ({children, className}) => {
+    const isInline = !className;
+    return isInline ? (
+      <code className="bg-orange-50 text-orange-700 px-1.5 py-0.5 rounded text-sm font-mono border border-orange-200">{children}</code>
+    ) : (
+      <code className="text-sm font-mono">{children}</code>
+    );
+  },
+  pre: ({children}) => <pre className="bg-gray-900 text-gray-100 p-4 rounded-lg overflow-x-auto my-3 text-sm font-mono">{children}</pre>,
+  ul: ({children}) => <ul className="list-disc pl-6 my-3 space-y-2">{children}</ul>,
+  ol: ({children}) => <ol className="list-decimal pl-6 my-3 space-y-2" style={{ listStyleType: 'decimal' }}>{children}</ol>,
+  li: ({children}) => <li className="text-gray-700 leading-relaxed">{children}</li>,
+  p: ({children}) => <p className="mb-3 text-gray-700 leading-relaxed">{children}</p>,
+  blockquote: ({children}) => <blockquote className="border-l-4 border-orange-400 pl-4 py-1 italic text-gray-600 my-3 bg-orange-50 rounded-r">{children}</blockquote>,
+  a: ({href, children}) => <MarkdownLink href={href}>{children}</MarkdownLink>,
+  hr: () => <hr className="my-4 border-gray-200" />,
+};
@@ -0,0 +1,39 @@
+/**
+ * 客户端 API 调用
+ * 解析 ApiResponse 信封，失败时抛出带错误码的 ApiRequestError
+ */
+
+import { ErrorCode, type ApiResponse } from './types';
+
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number,
+    /** 限流或配额用尽时建议的等待秒数 */
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+export async function readApiResponse<T>(response: Response): Promise<T> {
+  let body: ApiResponse<T>;
+  try {
+    body = await response.json();
+  } catch {
+    // 网关错误页等非 JSON 响应
+    throw new ApiRequestError(`Unexpected response (${response.status})`, ErrorCode.SERVICE_ERROR, response.status);
+  }
+
+  if (!body.success) {
+    const retryAfter = body.retryAfter ?? (Number(response.headers.get('Retry-After')) || undefined);
+    throw new ApiRequestError(body.error, body.code, response.status, retryAfter);
+  }
+  return body.data;
+}
+
+export async function fetchApi<T>(input: RequestInfo | URL, init?: RequestInit): Promise<T> {
+  return readApiResponse<T>(await fetch(input, init));
+}
@@ -0,0 +1,109 @@
+// API 路由的统一响应与错误处理
+// 成功和失败都使用 ApiResponse 信封，失败时带上 ErrorCode 与对应的 HTTP 状态码
+
+import { NextResponse } from 'next/server';
+import {
+  AppError,
+  InvalidRequestError,
+  NotFoundError,
+  RateLimitedError,
+  RequestTimeoutError,
+  ServiceError,
+  errorResponse,
+  successResponse,
+} from './types';
+import {
+  KnowledgeBaseError,
+  ResourceNotFoundError,
+  InvalidQueryError,
+} from './knowledge';
+import {
+  LLMConfigError,
+  LLMProviderError,
+  LLMTimeoutError,
+  ModelNotAllowedError,
+} from './llm';
+
+const isDev = () => process.env.NODE_ENV === 'development';
+
+/** 将任意异常归类为 AppError；未知异常按服务错误处理 */
+export function toAppError(error: unknown, fallbackMessage = 'Internal server error'): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof ResourceNotFoundError) {
+    return new NotFoundError(error.message);
+  }
+  if (error instanceof InvalidQueryError) {
+    return new InvalidRequestError(error.message);
+  }
+  if (error instanceof KnowledgeBaseError) {
+    return new ServiceError(error.message, error.statusCode);
+  }
+
+  if (error instanceof ModelNotAllowedError) {
+    return new InvalidRequestError(error.message);
+  }
+  if (error instanceof LLMConfigError) {
+    return new ServiceError('Service configuration error', 500, isDev() ? error.message : undefined);
+  }
+  // 模型服务响应超时或流式输出中途停滞，客户端可重试
+  if (error instanceof LLMTimeoutError) {
+    return new RequestTimeoutError('请求超时，请稍后重试', isDev() ? error.message : undefined);
+  }
+  if (error instanceof LLMProviderError) {
+    return new ServiceError('AI service unavailable', 502, isDev() ? error.message : undefined);
+  }
+
+  if (error instanceof Error) {
+    // 超时或中止的上游请求
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return new RequestTimeoutError('请求超时，请稍后重试', isDev() ? error.message : undefined);
+    }
+    // req.json() 解析失败
+    if (error instanceof SyntaxError) {
+      return new InvalidRequestError('Invalid JSON body');
+    }
+  }
+
+  return new ServiceError(fallbackMessage, 500, isDev() && error instanceof Error ? error.message : undefined);
+}
+
+export function apiSuccess<T>(data: T, init?: ResponseInit): NextResponse {
+  return NextResponse.json(successResponse(data), init);
+}
+
+export function apiError(error: AppError, headers?: HeadersInit): NextResponse {
+  const body = {
+    ...errorResponse(error.message, error.code, error.details),
+    ...(error instanceof RateLimitedError && error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+  };
+  const response = NextResponse.json(body, { status: error.statusCode, headers });
+  if (error instanceof RateLimitedError && error.retryAfter !== undefined) {
+    response.headers.set('Retry-After', String(error.retryAfter));
+  }
+  return response;
+}
+
+/**
+ * 包装路由处理函数：抛出的异常统一转换为带错误码的 ApiResponse
+ * scope 用于日志前缀，fallbackMessage 为未知异常的对外提示
+ */
+export function withErrorHandling<A extends unknown[]>(
+  scope: string,
+  handler: (...args: A) => Promise<Response>,
+  fallbackMessage?: string
+): (...args: A) => Promise<Response> {
+  return async (...args: A) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      const appError = toAppError(error, fallbackMessage);
+      if (appError.statusCode >= 500) {
+        console.error(`[${scope}] Error:`, error);
+      } else {
+        console.warn(`[${scope}] ${appError.code}: ${appError.message}`);
+      }
+      return apiError(appError);
+    }
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * 客户端 SSE 解析
+ * 读取 /api/chat 返回的 text/event-stream，逐个回调事件
+ */
+
+import type { ChatStreamEvent } from './types';
+
+function parseEvent(block: string): ChatStreamEvent | null {
+  const data = block
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+
+  if (!data || data === '[DONE]') return null;
+
+  try {
+    return JSON.parse(data) as ChatStreamEvent;
+  } catch {
+    // 跳过无法解析的事件
+    return null;
+  }
+}
+
+export function isEventStream(response: Response): boolean {
+  return (response.headers.get('Content-Type') || '').includes('text/event-stream');
+}
+
+/**
+ * 逐块读取响应体并按空行切分事件
+ * 调用方通过 AbortController 中止 fetch 时，read() 会抛出 AbortError
+ */
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+
+      for (const block of blocks) {
+        const event = parseEvent(block);
+        if (event) onEvent(event);
+      }
+    }
+
+    buffer += decoder.decode();
+    const event = parseEvent(buffer);
+    if (event) onEvent(event);
+  } finally {
+    reader.releaseLock();
+  }
+}
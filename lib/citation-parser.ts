@@ -0,0 +1,133 @@
+// 引用标记解析
+// 识别回答中的 "[作者 - 标题 (片段编号)]"；不依赖 Node 模块与知识库，
+// 服务端核验与客户端渲染链接共用
+
+import type { CitationReport, ResourceRef } from './types';
+
+/** 方括号内容；排除 Markdown 链接 [文本](地址) */
+export const CITATION_PATTERN = /\[([^[\]\n]{3,300})\](?!\()/g;
+
+/** 作者与标题之间的分隔符 */
+const AUTHOR_SEPARATOR = /\s+[-–—－]\s+/;
+
+/** 标题末尾的片段编号或资源代码，如 (8z#3)、（8z#3, 8z#5）、(8z) */
+const TRAILING_REFS = /\s*[(（]\s*([A-Za-z0-9]{1,6}(?:#\d+)?(?:\s*[,，、]\s*[A-Za-z0-9]{1,6}(?:#\d+)?)*)\s*[)）]\s*$/;
+
+/** 标题互相包含时至少的字符数，避免「AI」这类短标题误配 */
+const MIN_PARTIAL_TITLE_LENGTH = 6;
+
+export interface ParsedCitation {
+  raw: string;
+  author: string;
+  title: string;
+  chunkIds: string[];
+  codes: string[];
+}
+
+// 只保留字母与数字（含汉字），忽略大小写、标点和空白
+export function normalizeKey(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+export function titleMatches(cited: string, actual: string): boolean {
+  const a = normalizeKey(cited);
+  const b = normalizeKey(actual);
+  if (!a || !b) return false;
+  if (a === b) return true;
+  return Math.min(a.length, b.length) >= MIN_PARTIAL_TITLE_LENGTH && (a.includes(b) || b.includes(a));
+}
+
+// 合著资源的作者字段形如 "Paul Graham & Jessica Livingston"，引用其中一位即可
+export function authorMatches(cited: string, actual: string): boolean {
+  const a = normalizeKey(cited);
+  if (a.length < 2) return false;
+  return actual
+    .split(/\s*(?:&|,|，|、|\band\b)\s*/)
+    .map(normalizeKey)
+    .some(part => part.length >= 2 && (part === a || part.includes(a) || a.includes(part)));
+}
+
+/** 解析方括号内的引用；不是「作者 - 标题」形式时返回 null */
+export function parseCitation(raw: string, inner: string): ParsedCitation | null {
+  const separator = inner.match(AUTHOR_SEPARATOR);
+  if (!separator || separator.index === undefined) return null;
+
+  const author = inner.slice(0, separator.index).trim();
+  let title = inner.slice(separator.index + separator[0].length).trim();
+  const chunkIds: string[] = [];
+  const codes: string[] = [];
+
+  const refs = title.match(TRAILING_REFS);
+  if (refs) {
+    title = title.slice(0, refs.index).trim();
+    for (const ref of refs[1].split(/\s*[,，、]\s*/)) {
+      const [code, index] = ref.split('#');
+      if (!codes.includes(code)) codes.push(code);
+      if (index !== undefined) chunkIds.push(ref);
+    }
+  }
+
+  if (!author || !title) return null;
+  return { raw, author, title, chunkIds, codes };
+}
+
+// ==================== 可点击的引用 ====================
+
+export interface CitationTarget {
+  code: string;
+  /** 引用的片段，如 "8z#3" */
+  chunkId?: string;
+}
+
+const CITATION_HREF = /^#cite-([A-Za-z0-9]{1,6})(?:-(\d+))?$/;
+
+export function citationHref({ code, chunkId }: CitationTarget): string {
+  const index = chunkId?.split('#')[1];
+  return index !== undefined ? `#cite-${code}-${index}` : `#cite-${code}`;
+}
+
+export function parseCitationHref(href: string | undefined): CitationTarget | null {
+  const match = href?.match(CITATION_HREF);
+  if (!match) return null;
+  return { code: match[1], chunkId: match[2] !== undefined ? `${match[1]}#${match[2]}` : undefined };
+}
+
+/**
+ * 确定引用指向的资源
+ * 有核验结果时以其为准（核验为编造的引用不链接）；流式输出尚未核验时按代码、标题、作者在本轮资料中查找
+ */
+export function resolveCitation(
+  citation: ParsedCitation,
+  resources: ResourceRef[],
+  report?: CitationReport
+): CitationTarget | null {
+  if (report) {
+    const checked = report.citations.find(c => c.raw === citation.raw);
+    if (checked) {
+      return checked.code && checked.status !== 'unknown'
+        ? { code: checked.code, chunkId: checked.chunkIds?.find(id => id.startsWith(`${checked.code}#`)) }
+        : null;
+    }
+  }
+
+  const code = citation.codes.find(c => resources.some(r => r.code === c));
+  if (code) {
+    return { code, chunkId: citation.chunkIds.find(id => id.startsWith(`${code}#`)) };
+  }
+
+  const byTitle = resources.filter(r => titleMatches(citation.title, r.title));
+  const match = byTitle.find(r => authorMatches(citation.author, r.author)) || byTitle[0];
+  if (match) return { code: match.code };
+
+  const byAuthor = resources.filter(r => authorMatches(citation.author, r.author));
+  return byAuthor.length === 1 ? { code: byAuthor[0].code } : null;
+}
+
+/** 把回答中能对应到资料的引用标记改写为 Markdown 链接（#cite-代码-片段序号） */
+export function linkCitations(content: string, resources: ResourceRef[], report?: CitationReport): string {
+  return content.replace(CITATION_PATTERN, (raw, inner: string) => {
+    const parsed = parseCitation(raw, inner);
+    const target = parsed && resolveCitation(parsed, resources, report);
+    return target ? `[${inner}](${citationHref(target)})` : raw;
+  });
+}
@@ -0,0 +1,196 @@
+// 引用核验
+// 回答生成后解析其中的 "[作者 - 标题 (片段编号)]" 引用与原文引述，
+// 与本次实际提供给模型的资料比对，标记编造或对不上的引用
+
+import {
+  CITATION_PATTERN,
+  ParsedCitation,
+  authorMatches,
+  normalizeKey,
+  parseCitation,
+  titleMatches,
+} from './citation-parser';
+import { hasChinese } from './knowledge/chinese';
+import type { ResourceMeta, RetrievedChunk } from './knowledge/types';
+import type { CitationRef, CitationReport, CitationStatus, QuoteRef } from './types';
+
+const QUOTE_PATTERNS = [/“([^”\n]{10,500})”/g, /"([^"\n]{10,500})"/g];
+const BLOCKQUOTE_PATTERN = /^>\s?(.+)$/gm;
+
+/** 比对引述时，每段原文至少的字符数（去掉标点和空白后） */
+const MIN_QUOTE_LENGTH = 12;
+
+interface SuppliedResource {
+  meta: ResourceMeta;
+  chunkIds: Set<string>;
+  text: string;
+}
+
+function groupSources(sources: RetrievedChunk[]): Map<string, SuppliedResource> {
+  const resources = new Map<string, SuppliedResource>();
+  for (const { meta, chunk } of sources) {
+    let resource = resources.get(meta.code);
+    if (!resource) {
+      resource = { meta, chunkIds: new Set(), text: '' };
+      resources.set(meta.code, resource);
+    }
+    resource.chunkIds.add(chunk.id);
+    resource.text += `\n${chunk.text}`;
+  }
+  return resources;
+}
+
+function verifyCitation(
+  citation: ParsedCitation,
+  resources: Map<string, SuppliedResource>
+): { code?: string; status: CitationStatus; issues: string[] } {
+  const issues: string[] = [];
+  const supplied = Array.from(resources.values());
+
+  // 标注了片段编号或资源代码时以代码为准，再检查作者与标题是否一致
+  if (citation.codes.length > 0) {
+    const code = citation.codes.find(c => resources.has(c));
+    if (!code) {
+      return { status: 'unknown', issues: [`${citation.codes.join(', ')} was not supplied`] };
+    }
+
+    const { meta, chunkIds } = resources.get(code)!;
+    const unsuppliedChunks = citation.chunkIds.filter(id => id.startsWith(`${code}#`) && !chunkIds.has(id));
+    if (unsuppliedChunks.length > 0) {
+      issues.push(`passage ${unsuppliedChunks.join(', ')} was not supplied`);
+    }
+
+    const titleOk = titleMatches(citation.title, meta.title);
+    const authorOk = authorMatches(citation.author, meta.author);
+    // 模型有时会翻译标题，作者一致时仍视为同一资源
+    if (!titleOk && !authorOk) {
+      issues.push(`${code} is "${meta.author} - ${meta.title}"`);
+    } else if (!authorOk) {
+      issues.push(`author of ${code} is ${meta.author}`);
+    }
+
+    return { code, status: issues.length > 0 ? 'mismatched' : 'verified', issues };
+  }
+
+  // 不同作者可能有同名文章（如多篇 "How to Get Startup Ideas"），优先作者一致的
+  const byTitle = supplied.filter(r => titleMatches(citation.title, r.meta.title));
+  const exact = byTitle.find(r => authorMatches(citation.author, r.meta.author));
+  if (exact) {
+    return { code: exact.meta.code, status: 'verified', issues };
+  }
+  if (byTitle.length > 0) {
+    const { meta } = byTitle[0];
+    issues.push(`author of "${meta.title}" is ${meta.author}`);
+    return { code: meta.code, status: 'mismatched', issues };
+  }
+
+  // 标题对不上但作者只对应一篇资料时，大概率是翻译或改写了标题
+  const byAuthor = supplied.filter(r => authorMatches(citation.author, r.meta.author));
+  if (byAuthor.length === 1) {
+    issues.push(`title does not match "${byAuthor[0].meta.title}"`);
+    return { code: byAuthor[0].meta.code, status: 'mismatched', issues };
+  }
+
+  return { status: 'unknown', issues: ['not among the supplied resources'] };
+}
+
+function extractQuotes(answer: string): string[] {
+  // 引用本身带引号的标题不算引述
+  const text = answer.replace(CITATION_PATTERN, ' ');
+  const quotes: string[] = [];
+  for (const pattern of QUOTE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) quotes.push(match[1]);
+  }
+
+  const blockquote: string[] = [];
+  const flush = () => {
+    if (blockquote.length > 0) quotes.push(blockquote.join(' '));
+    blockquote.length = 0;
+  };
+  let lastIndex = -1;
+  for (const match of text.matchAll(BLOCKQUOTE_PATTERN)) {
+    // 相邻的引用行合并为一段
+    if (match.index !== lastIndex) flush();
+    blockquote.push(match[1]);
+    lastIndex = match.index! + match[0].length + 1;
+  }
+  flush();
+
+  return Array.from(new Set(quotes.map(q => q.trim())));
+}
+
+/**
+ * 在资料原文中查找引述；省略号分隔的各段需出现在同一资源中
+ * 翻译成中文的引述无法与英文原文比对，返回 null 表示不核验
+ */
+function verifyQuote(quote: string, resources: Map<string, SuppliedResource>): QuoteRef | null {
+  const parts = quote
+    .split(/…+|\.{3,}/)
+    .map(normalizeKey)
+    .filter(part => part.length >= MIN_QUOTE_LENGTH);
+  if (parts.length === 0) return null;
+
+  const supplied = Array.from(resources.values());
+  if (hasChinese(quote) && !supplied.some(r => hasChinese(r.text))) return null;
+
+  for (const resource of supplied) {
+    const source = normalizeKey(resource.text);
+    if (parts.every(part => source.includes(part))) {
+      return { text: quote, found: true, code: resource.meta.code };
+    }
+  }
+  return { text: quote, found: false };
+}
+
+/** 核验回答中的引用与引述；sources 为实际放入提示词的片段 */
+export function verifyCitations(answer: string, sources: RetrievedChunk[]): CitationReport {
+  const resources = groupSources(sources);
+
+  const citations = new Map<string, CitationRef>();
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const existing = citations.get(match[0]);
+    if (existing) {
+      existing.occurrences++;
+      continue;
+    }
+
+    const parsed = parseCitation(match[0], match[1]);
+    if (!parsed) continue;
+
+    const { code, status, issues } = verifyCitation(parsed, resources);
+    citations.set(match[0], {
+      raw: parsed.raw,
+      author: parsed.author,
+      title: parsed.title,
+      chunkIds: parsed.chunkIds.length > 0 ? parsed.chunkIds : undefined,
+      code,
+      status,
+      issues: issues.length > 0 ? issues : undefined,
+      occurrences: 1,
+    });
+  }
+
+  // 行文中加引号提到的资料标题（如 Paul Graham 的 "Do Things That Don't Scale"）不是引述
+  const titles = Array.from(resources.values()).map(r => r.meta.title);
+  const quotes = extractQuotes(answer)
+    .filter(quote => !titles.some(title => titleMatches(quote, title)))
+    .map(quote => verifyQuote(quote, resources))
+    .filter((q): q is QuoteRef => q !== null);
+
+  const refs = Array.from(citations.values());
+  const verified = refs.filter(c => c.status === 'verified').length;
+  const quotesOk = quotes.every(q => q.found);
+
+  let status: CitationReport['status'];
+  if (refs.length === 0) {
+    status = 'none';
+  } else if (verified === refs.length && quotesOk) {
+    status = 'verified';
+  } else if (verified === 0) {
+    status = 'unverified';
+  } else {
+    status = 'partial';
+  }
+
+  return { status, citations: refs, quotes };
+}
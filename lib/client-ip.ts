@@ -0,0 +1,12 @@
+// 从转发头中解析客户端 IP
+// 部署在 Vercel / 反向代理之后时，真实 IP 位于 x-forwarded-for 的第一项
+
+export function getClientIp(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for');
+  if (forwarded) {
+    const first = forwarded.split(',')[0]?.trim();
+    if (first) return first;
+  }
+
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
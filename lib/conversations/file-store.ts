@@ -0,0 +1,155 @@
+// 文件会话存储
+// 每个会话一个 JSON 文件，按所有者分目录：<baseDir>/<所有者摘要>/<会话 id>.json
+// 注意：写入只在进程内串行化，多实例共享目录时需改用数据库实现
+
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  Conversation,
+  ConversationMemory,
+  ConversationStore,
+  ConversationSummary,
+  StoredMessage,
+} from '../types';
+import {
+  appendMessages,
+  applyMemory,
+  byUpdatedAtDesc,
+  createConversation,
+  isValidConversationId,
+  normalizeTitle,
+  summarizeConversation,
+} from './utils';
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+export class FileConversationStore implements ConversationStore {
+  // 按文件串行化读改写，避免同一会话的并发更新相互覆盖
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private baseDir: string) {}
+
+  // 所有者 id 可能包含 IP 或密钥名，取摘要作为目录名
+  private ownerDir(ownerId: string): string {
+    return path.join(this.baseDir, createHash('sha256').update(ownerId).digest('hex').slice(0, 24));
+  }
+
+  private filePath(ownerId: string, id: string): string {
+    return path.join(this.ownerDir(ownerId), `${id}.json`);
+  }
+
+  private async read(file: string): Promise<Conversation | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8')) as Conversation;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  // 先写临时文件再重命名，进程中断时不会留下半截文件
+  private async write(file: string, conversation: Conversation): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(conversation, null, 2), 'utf-8');
+    await fs.rename(tmp, file);
+  }
+
+  private async withLock<T>(file: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(file) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.locks.set(file, current);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(file) === current) this.locks.delete(file);
+    }
+  }
+
+  private update(
+    ownerId: string,
+    id: string,
+    mutate: (conversation: Conversation) => void
+  ): Promise<Conversation | null> {
+    if (!isValidConversationId(id)) return Promise.resolve(null);
+
+    const file = this.filePath(ownerId, id);
+    return this.withLock(file, async () => {
+      const conversation = await this.read(file);
+      if (!conversation) return null;
+      mutate(conversation);
+      await this.write(file, conversation);
+      return conversation;
+    });
+  }
+
+  async list(ownerId: string): Promise<ConversationSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.ownerDir(ownerId));
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const conversations = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.read(path.join(this.ownerDir(ownerId), file)))
+    );
+
+    return conversations
+      .filter((c): c is Conversation => c !== null)
+      .map(summarizeConversation)
+      .sort(byUpdatedAtDesc);
+  }
+
+  async get(ownerId: string, id: string): Promise<Conversation | null> {
+    if (!isValidConversationId(id)) return null;
+    return this.read(this.filePath(ownerId, id));
+  }
+
+  async create(ownerId: string, title?: string): Promise<Conversation> {
+    const conversation = createConversation(randomUUID(), title);
+    await this.write(this.filePath(ownerId, conversation.id), conversation);
+    return conversation;
+  }
+
+  append(
+    ownerId: string,
+    id: string,
+    messages: StoredMessage[],
+    replaceLast?: boolean
+  ): Promise<Conversation | null> {
+    return this.update(ownerId, id, conversation => appendMessages(conversation, messages, replaceLast));
+  }
+
+  rename(ownerId: string, id: string, title: string): Promise<Conversation | null> {
+    return this.update(ownerId, id, conversation => {
+      conversation.title = normalizeTitle(title) || conversation.title;
+      conversation.updatedAt = new Date().toISOString();
+    });
+  }
+
+  updateMemory(ownerId: string, id: string, memory: ConversationMemory): Promise<Conversation | null> {
+    return this.update(ownerId, id, conversation => applyMemory(conversation, memory));
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    if (!isValidConversationId(id)) return false;
+
+    const file = this.filePath(ownerId, id);
+    return this.withLock(file, async () => {
+      try {
+        await fs.unlink(file);
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    });
+  }
+}
@@ -0,0 +1,45 @@
+// Conversation Storage
+// 默认使用文件存储（CONVERSATIONS_DIR，默认 data/conversations）；
+// 配置 CONVERSATION_STORE=memory 时使用内存存储；未显式配置且目录不可写（如 Vercel）时也退回内存存储
+
+import * as path from 'path';
+import { isWritableDir } from '../storage';
+import type { ConversationStore } from '../types';
+import { FileConversationStore } from './file-store';
+import { MemoryConversationStore } from './memory-store';
+
+export { FileConversationStore } from './file-store';
+export { MemoryConversationStore } from './memory-store';
+export { DEFAULT_TITLE, MAX_TITLE_LENGTH, isValidConversationId } from './utils';
+export {
+  HeuristicConversationSummarizer,
+  LLMConversationSummarizer,
+  rollMemory,
+  splitHistory,
+} from './summarizer';
+export type { ConversationSummarizer, LLMSummarizerOptions, MemoryContent } from './summarizer';
+
+function createStore(): ConversationStore {
+  if (process.env.CONVERSATION_STORE === 'memory') {
+    return new MemoryConversationStore();
+  }
+  const dir = process.env.CONVERSATIONS_DIR || path.join(process.cwd(), 'data', 'conversations');
+  // 显式配置 file 时不退回，目录不可写的错误照常暴露
+  if (process.env.CONVERSATION_STORE !== 'file' && !isWritableDir(dir)) {
+    console.warn(`[Conversations] ${dir} is not writable, falling back to in-memory store`);
+    return new MemoryConversationStore();
+  }
+  return new FileConversationStore(dir);
+}
+
+let store: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  store ??= createStore();
+  return store;
+}
+
+// 替换存储（如接入数据库实现）；不传参数时下次按环境变量重新创建
+export function resetConversationStore(next?: ConversationStore) {
+  store = next ?? null;
+}
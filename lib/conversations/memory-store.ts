@@ -0,0 +1,84 @@
+// 内存会话存储
+// 用于开发、测试或文件系统只读的部署环境；进程重启后会话丢失
+
+import { randomUUID } from 'crypto';
+import type {
+  Conversation,
+  ConversationMemory,
+  ConversationStore,
+  ConversationSummary,
+  StoredMessage,
+} from '../types';
+import {
+  appendMessages,
+  applyMemory,
+  byUpdatedAtDesc,
+  createConversation,
+  normalizeTitle,
+  summarizeConversation,
+} from './utils';
+
+export class MemoryConversationStore implements ConversationStore {
+  private owners = new Map<string, Map<string, Conversation>>();
+
+  private conversations(ownerId: string): Map<string, Conversation> {
+    let conversations = this.owners.get(ownerId);
+    if (!conversations) {
+      conversations = new Map();
+      this.owners.set(ownerId, conversations);
+    }
+    return conversations;
+  }
+
+  async list(ownerId: string): Promise<ConversationSummary[]> {
+    return Array.from(this.conversations(ownerId).values())
+      .map(summarizeConversation)
+      .sort(byUpdatedAtDesc);
+  }
+
+  // 返回副本，调用方修改不会影响存储
+  async get(ownerId: string, id: string): Promise<Conversation | null> {
+    const conversation = this.conversations(ownerId).get(id);
+    return conversation ? structuredClone(conversation) : null;
+  }
+
+  async create(ownerId: string, title?: string): Promise<Conversation> {
+    const conversation = createConversation(randomUUID(), title);
+    this.conversations(ownerId).set(conversation.id, conversation);
+    return structuredClone(conversation);
+  }
+
+  async append(
+    ownerId: string,
+    id: string,
+    messages: StoredMessage[],
+    replaceLast?: boolean
+  ): Promise<Conversation | null> {
+    const conversation = this.conversations(ownerId).get(id);
+    if (!conversation) return null;
+
+    appendMessages(conversation, structuredClone(messages), replaceLast);
+    return structuredClone(conversation);
+  }
+
+  async rename(ownerId: string, id: string, title: string): Promise<Conversation | null> {
+    const conversation = this.conversations(ownerId).get(id);
+    if (!conversation) return null;
+
+    conversation.title = normalizeTitle(title) || conversation.title;
+    conversation.updatedAt = new Date().toISOString();
+    return structuredClone(conversation);
+  }
+
+  async updateMemory(ownerId: string, id: string, memory: ConversationMemory): Promise<Conversation | null> {
+    const conversation = this.conversations(ownerId).get(id);
+    if (!conversation) return null;
+
+    applyMemory(conversation, structuredClone(memory));
+    return structuredClone(conversation);
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    return this.conversations(ownerId).delete(id);
+  }
+}
@@ -0,0 +1,192 @@
+// 对话滚动摘要
+// 最近几轮对话原样进入提示词，更早的对话压缩为「创业者画像 + 讨论要点」，
+// 随会话一起保存，每轮回答后把新滑出窗口的消息并入摘要
+
+import { inferFilters } from '../knowledge/query-rewrite';
+import type { LLMMessage, LLMProvider, TokenUsage } from '../llm/types';
+import { STAGE_LABELS, isProfileStage } from '../profiles/utils';
+import type { ChatMessage, ConversationMemory } from '../types';
+
+export type MemoryContent = Pick<ConversationMemory, 'profile' | 'discussion'>;
+
+export interface ConversationSummarizer {
+  /** 将新滑出窗口的消息并入已有摘要 */
+  summarize(previous: MemoryContent | undefined, messages: ChatMessage[]): Promise<MemoryContent>;
+}
+
+/** 讨论要点最多保留的条数，超出时丢弃最早的 */
+const MAX_DISCUSSION_POINTS = 12;
+
+/** 单个问题在要点中保留的字符数 */
+const MAX_POINT_LENGTH = 60;
+
+/** 送入模型的单条回答字符数，回答的结论通常在前半部分 */
+const MAX_ANSWER_CHARS = 800;
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length)}…` : flat;
+}
+
+function bulletLines(text: string | undefined): string[] {
+  return (text || '').split('\n').map(line => line.trim()).filter(line => line.startsWith('- '));
+}
+
+// ==================== 规则摘要 ====================
+
+/**
+ * 规则摘要：从用户消息中识别阶段与关注的分类，讨论要点记录用户提过的问题
+ * 不调用模型，用于 mock 环境或模型摘要失败时兜底
+ */
+export class HeuristicConversationSummarizer implements ConversationSummarizer {
+  async summarize(previous: MemoryContent | undefined, messages: ChatMessage[]): Promise<MemoryContent> {
+    // 画像按「键：值」逐行保存，新识别的信息覆盖或合并旧值
+    const profile = new Map<string, string>();
+    for (const line of (previous?.profile || '').split('\n')) {
+      const match = line.trim().match(/^(?:- )?(.+?)：(.+)$/);
+      if (match) profile.set(match[1], match[2]);
+    }
+
+    const topics = new Set((profile.get('关注') || '').split('、').filter(Boolean));
+    const questions = messages.filter(m => m.role === 'user');
+    for (const { content } of questions) {
+      const filters = inferFilters(content);
+      const stage = filters.stages?.find(isProfileStage);
+      if (stage) profile.set('阶段', STAGE_LABELS[stage]);
+      filters.categories?.forEach(category => topics.add(category));
+    }
+    if (topics.size > 0) profile.set('关注', Array.from(topics).join('、'));
+
+    const points = [
+      ...bulletLines(previous?.discussion),
+      ...questions.map(q => `- 问过：${truncate(q.content, MAX_POINT_LENGTH)}`),
+    ].slice(-MAX_DISCUSSION_POINTS);
+
+    return {
+      profile: Array.from(profile.entries()).map(([key, value]) => `${key}：${value}`).join('\n'),
+      discussion: points.join('\n'),
+    };
+  }
+}
+
+// ==================== 模型摘要 ====================
+
+const SUMMARY_INSTRUCTIONS = `你负责维护一段创业咨询对话的记忆。根据已有摘要和新增的对话，输出更新后的完整摘要。
+
+严格使用以下格式，不要输出其他内容：
+创业者画像：
+<阶段、想法、行业、用户、团队、融资、约束等事实，每行一条；未提及的不要猜测>
+讨论要点：
+- <已讨论的问题及给出的关键建议，每条一行，最多 ${MAX_DISCUSSION_POINTS} 条>
+
+总字数不超过 400 字。新信息与旧画像冲突时以新信息为准。`;
+
+const PROFILE_HEADER = /创业者画像[:：]/;
+const DISCUSSION_HEADER = /讨论要点[:：]/;
+
+function formatTranscript(messages: ChatMessage[]): string {
+  return messages
+    .map(m => m.role === 'user'
+      ? `创业者：${m.content}`
+      : `顾问：${truncate(m.content, MAX_ANSWER_CHARS)}`)
+    .join('\n\n');
+}
+
+export function parseMemory(text: string): MemoryContent | null {
+  const profileMatch = text.match(PROFILE_HEADER);
+  const discussionMatch = text.match(DISCUSSION_HEADER);
+  if (!profileMatch || !discussionMatch || discussionMatch.index! < profileMatch.index!) {
+    return null;
+  }
+
+  return {
+    profile: text.slice(profileMatch.index! + profileMatch[0].length, discussionMatch.index).trim(),
+    discussion: text.slice(discussionMatch.index! + discussionMatch[0].length).trim(),
+  };
+}
+
+export interface LLMSummarizerOptions {
+  model?: string;
+  fallback?: ConversationSummarizer;
+  /** 每次调用模型后回调，用于把摘要消耗的 token 计入调用方的用量与配额 */
+  onUsage?: (prompt: LLMMessage[], summary: string, usage?: TokenUsage) => void;
+}
+
+/** 由模型改写摘要；输出不符合格式或调用失败时退回规则摘要 */
+export class LLMConversationSummarizer implements ConversationSummarizer {
+  private fallback: ConversationSummarizer;
+
+  constructor(private llm: LLMProvider, private options: LLMSummarizerOptions = {}) {
+    this.fallback = options.fallback || new HeuristicConversationSummarizer();
+  }
+
+  async summarize(previous: MemoryContent | undefined, messages: ChatMessage[]): Promise<MemoryContent> {
+    const existing = previous
+      ? `创业者画像：\n${previous.profile || '（暂无）'}\n讨论要点：\n${previous.discussion || '（暂无）'}`
+      : '（暂无）';
+    const prompt: LLMMessage[] = [
+      { role: 'system', content: SUMMARY_INSTRUCTIONS },
+      { role: 'user', content: `已有摘要：\n${existing}\n\n新增对话：\n${formatTranscript(messages)}` },
+    ];
+
+    try {
+      const { content, usage } = await this.llm.complete(prompt, {
+        model: this.options.model,
+        maxTokens: 600,
+        temperature: 0.2,
+      });
+      this.options.onUsage?.(prompt, content, usage);
+
+      const parsed = parseMemory(content);
+      if (parsed) return parsed;
+      console.warn('[Summarizer] Unexpected summary format, using heuristic summary');
+    } catch (error) {
+      console.error('[Summarizer] Summary failed, using heuristic summary:', error);
+    }
+
+    return this.fallback.summarize(previous, messages);
+  }
+}
+
+// ==================== 窗口划分 ====================
+
+export interface HistoryWindow {
+  /** 已滑出窗口但尚未并入摘要的消息 */
+  pending: ChatMessage[];
+  /** 原样进入提示词的最近消息 */
+  recent: ChatMessage[];
+}
+
+/** 按最近消息条数划分历史；summarizedCount 之前的消息已包含在摘要中 */
+export function splitHistory(
+  history: ChatMessage[],
+  recentCount: number,
+  summarizedCount = 0
+): HistoryWindow {
+  const olderCount = Math.max(0, history.length - recentCount);
+  return {
+    pending: history.slice(Math.min(summarizedCount, olderCount), olderCount),
+    recent: history.slice(olderCount),
+  };
+}
+
+/**
+ * 把滑出窗口的消息并入摘要
+ * 没有新消息需要压缩时返回 null
+ */
+export async function rollMemory(
+  summarizer: ConversationSummarizer,
+  messages: ChatMessage[],
+  memory: ConversationMemory | undefined,
+  recentCount: number
+): Promise<ConversationMemory | null> {
+  const { pending } = splitHistory(messages, recentCount, memory?.summarizedCount);
+  if (pending.length === 0) return null;
+
+  const content = await summarizer.summarize(memory, pending);
+  return {
+    ...content,
+    summarizedCount: Math.max(0, messages.length - recentCount),
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,78 @@
+// 会话存储实现共用的辅助函数
+// 不依赖 Node 模块，客户端可引用其中的常量与校验
+
+import type { Conversation, ConversationMemory, ConversationSummary, StoredMessage } from '../types';
+
+export const DEFAULT_TITLE = '新对话';
+export const MAX_TITLE_LENGTH = 100;
+
+// 会话 id 同时用作文件名，只允许安全字符
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidConversationId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_LENGTH);
+}
+
+export function createConversation(id: string, title?: string): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id,
+    title: (title && normalizeTitle(title)) || DEFAULT_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+}
+
+export function summarizeConversation(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length,
+  };
+}
+
+/** 最近更新的会话排在前面 */
+export function byUpdatedAtDesc(a: ConversationSummary, b: ConversationSummary): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+/**
+ * 追加消息（原地修改）
+ * replaceLast 时移除最后一条用户消息及其后的回答；未命名的会话以首个问题作为标题
+ */
+export function appendMessages(conversation: Conversation, messages: StoredMessage[], replaceLast = false) {
+  if (replaceLast) {
+    const lastUser = conversation.messages.map(m => m.role).lastIndexOf('user');
+    if (lastUser !== -1) {
+      conversation.messages = conversation.messages.slice(0, lastUser);
+    }
+  }
+
+  conversation.messages.push(...messages);
+  conversation.updatedAt = new Date().toISOString();
+
+  if (conversation.title === DEFAULT_TITLE) {
+    const firstQuestion = conversation.messages.find(m => m.role === 'user');
+    if (firstQuestion) {
+      conversation.title = normalizeTitle(firstQuestion.content).slice(0, 30) || DEFAULT_TITLE;
+    }
+  }
+}
+
+/**
+ * 更新滚动摘要（原地修改）
+ * 并发的摘要任务可能乱序完成，只接受覆盖消息不少于当前摘要的结果
+ */
+export function applyMemory(conversation: Conversation, memory: ConversationMemory) {
+  if (conversation.memory && conversation.memory.summarizedCount > memory.summarizedCount) {
+    return;
+  }
+  conversation.memory = memory;
+}
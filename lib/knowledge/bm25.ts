@@ -0,0 +1,107 @@
+/**
+ * BM25 full-text ranking
+ * The index is built offline by scripts/build-index.ts; both sides must
+ * share analyze() so query terms line up with indexed terms.
+ */
+
+import { Bm25Index } from './types';
+import { tokenize } from './search';
+
+export const BM25_VERSION = '1.0';
+
+export const DEFAULT_BM25_PARAMS = {
+  k1: 1.2,
+  b: 0.75,
+};
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/** Light plural stemmer ("cliffs" -> "cliff", "companies" -> "company") */
+export function stem(token: string): string {
+  if (token.length <= 4) return token;
+  if (token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.endsWith('sses')) return token.slice(0, -2);
+  if (/(ss|us|is)$/.test(token)) return token;
+  if (token.endsWith('s')) return token.slice(0, -1);
+  return token;
+}
+
+/** Tokenize and stem text for indexing or querying */
+export function analyze(text: string): string[] {
+  return tokenize(text.replace(/https?:\/\/\S+/g, ' ')).map(stem);
+}
+
+// ============================================================================
+// Index Construction
+// ============================================================================
+
+/** Build a BM25 index from resource bodies */
+export function buildBm25Index(
+  documents: { code: string; text: string }[],
+  params: { k1: number; b: number } = DEFAULT_BM25_PARAMS
+): Bm25Index {
+  const postings: Record<string, number[]> = {};
+  const docLengths: number[] = [];
+
+  documents.forEach((doc, docIndex) => {
+    const terms = analyze(doc.text);
+    docLengths.push(terms.length);
+
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+
+    for (const [term, tf] of frequencies) {
+      if (!postings[term]) {
+        postings[term] = [];
+      }
+      postings[term].push(docIndex, tf);
+    }
+  });
+
+  const totalLength = docLengths.reduce((a, b) => a + b, 0);
+
+  return {
+    version: BM25_VERSION,
+    generatedAt: new Date().toISOString(),
+    params,
+    docs: documents.map(d => d.code),
+    docLengths,
+    avgDocLength: documents.length > 0 ? totalLength / documents.length : 0,
+    postings,
+  };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/** Score every document containing at least one query term */
+export function scoreBm25(index: Bm25Index, queryTerms: string[]): Map<string, number> {
+  const { k1, b } = index.params;
+  const totalDocs = index.docs.length;
+  const scores = new Map<string, number>();
+
+  for (const term of new Set(queryTerms)) {
+    const list = index.postings[term];
+    if (!list) continue;
+
+    const df = list.length / 2;
+    const idf = Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5));
+
+    for (let i = 0; i < list.length; i += 2) {
+      const docIndex = list[i];
+      const tf = list[i + 1];
+      const lengthNorm = 1 - b + b * (index.docLengths[docIndex] / index.avgDocLength);
+      const termScore = idf * (tf * (k1 + 1)) / (tf + k1 * lengthNorm);
+
+      const code = index.docs[docIndex];
+      scores.set(code, (scores.get(code) || 0) + termScore);
+    }
+  }
+
+  return scores;
+}
@@ -0,0 +1,226 @@
+/**
+ * Chinese query analysis
+ * Segments Chinese text and maps common startup terms onto the English
+ * vocabulary and categories of the (English) library.
+ */
+
+import { Category } from './types';
+
+interface TermMapping {
+  /** English search terms (lowercase, single words) */
+  terms: string[];
+  /** Library categories the term points to */
+  categories?: Category[];
+}
+
+/** Chinese startup vocabulary -> English terms and categories */
+export const CHINESE_TERMS: Record<string, TermMapping> = {
+  // Fundraising
+  '融资': { terms: ['fundraising', 'raise', 'investors'], categories: ['fundraising'] },
+  '募资': { terms: ['fundraising', 'raise'], categories: ['fundraising'] },
+  '筹款': { terms: ['fundraising', 'raise'], categories: ['fundraising'] },
+  '投资人': { terms: ['investors', 'investor'], categories: ['fundraising'] },
+  '投资者': { terms: ['investors', 'investor'], categories: ['fundraising'] },
+  '风投': { terms: ['venture', 'investors'], categories: ['fundraising'] },
+  '天使投资': { terms: ['angel', 'investors'], categories: ['fundraising'] },
+  '天使轮': { terms: ['angel', 'seed'], categories: ['fundraising'] },
+  '种子轮': { terms: ['seed', 'round'], categories: ['fundraising'] },
+  '估值': { terms: ['valuation'], categories: ['fundraising'] },
+  '路演': { terms: ['pitch', 'demo'], categories: ['fundraising'] },
+  '演示日': { terms: ['demo', 'day'], categories: ['fundraising'] },
+  '融资演讲': { terms: ['pitch', 'deck'], categories: ['fundraising'] },
+  '商业计划书': { terms: ['pitch', 'deck'], categories: ['fundraising'] },
+  '条款清单': { terms: ['term', 'sheet'], categories: ['fundraising'] },
+  '可转债': { terms: ['convertible', 'note', 'safe'], categories: ['fundraising'] },
+  '尽职调查': { terms: ['diligence'], categories: ['fundraising'] },
+  '投资': { terms: ['investment', 'invest'] },
+
+  // Co-founders & equity
+  '联合创始人': { terms: ['cofounder', 'cofounders'], categories: ['co-founders'] },
+  '合伙人': { terms: ['cofounder', 'partner'], categories: ['co-founders'] },
+  '技术合伙人': { terms: ['technical', 'cofounder'], categories: ['co-founders'] },
+  '创始团队': { terms: ['founding', 'team'], categories: ['co-founders'] },
+  '股权': { terms: ['equity'], categories: ['co-founders'] },
+  '股权分配': { terms: ['equity', 'split'], categories: ['co-founders'] },
+  '期权': { terms: ['options', 'equity'] },
+  '兑现': { terms: ['vesting'] },
+  '归属期': { terms: ['vesting'] },
+  '悬崖期': { terms: ['cliff', 'vesting'] },
+  '董事会': { terms: ['board'], categories: ['governance'] },
+
+  // Ideas & getting started
+  '创业想法': { terms: ['ideas', 'idea'], categories: ['getting-started'] },
+  '想法': { terms: ['ideas', 'idea'], categories: ['getting-started'] },
+  '点子': { terms: ['ideas', 'idea'], categories: ['getting-started'] },
+  '创业': { terms: ['startup'] },
+  '创业公司': { terms: ['startup'] },
+  '辞职': { terms: ['quit', 'job'], categories: ['career'] },
+  '注册公司': { terms: ['incorporate', 'incorporation'], categories: ['admin'] },
+  '法律': { terms: ['legal'], categories: ['admin'] },
+
+  // Product
+  '产品': { terms: ['product'], categories: ['building'] },
+  '产品开发': { terms: ['product', 'development'], categories: ['building'] },
+  '产品市场匹配': { terms: ['product', 'market', 'fit', 'pmf'], categories: ['building'] },
+  '最小可行产品': { terms: ['mvp', 'minimum', 'viable'], categories: ['building'] },
+  '设计': { terms: ['design'], categories: ['design'] },
+  '用户体验': { terms: ['design', 'experience'], categories: ['design'] },
+  '发布': { terms: ['launch', 'launching'], categories: ['launching'] },
+  '上线': { terms: ['launch'], categories: ['launching'] },
+  '迭代': { terms: ['iterate', 'iteration'], categories: ['building'] },
+  '技术': { terms: ['technical', 'technology'], categories: ['engineering'] },
+  '工程师': { terms: ['engineer', 'engineers'], categories: ['engineering'] },
+
+  // Growth & customers
+  '增长': { terms: ['growth', 'grow'], categories: ['growth'] },
+  '获客': { terms: ['acquisition', 'users', 'customers'], categories: ['growth'] },
+  '用户': { terms: ['users', 'user'], categories: ['customers'] },
+  '客户': { terms: ['customers', 'customer'], categories: ['customers'] },
+  '留存': { terms: ['retention'], categories: ['metrics'] },
+  '指标': { terms: ['metrics'], categories: ['metrics'] },
+  '营收': { terms: ['revenue'], categories: ['metrics'] },
+  '收入': { terms: ['revenue'], categories: ['metrics'] },
+  '定价': { terms: ['pricing', 'price'], categories: ['pricing'] },
+  '销售': { terms: ['sales', 'selling'], categories: ['b2b'] },
+  '企业销售': { terms: ['enterprise', 'sales'], categories: ['b2b'] },
+  '大客户': { terms: ['enterprise', 'customers'], categories: ['b2b'] },
+  '企业服务': { terms: ['enterprise', 'saas'], categories: ['b2b'] },
+  '市场': { terms: ['market'] },
+  '市场规模': { terms: ['market', 'size'] },
+  '竞争': { terms: ['competition', 'competitors'] },
+  '竞争对手': { terms: ['competitors', 'competition'] },
+
+  // Team
+  '招聘': { terms: ['hiring', 'hire', 'recruiting'], categories: ['hiring'] },
+  '招人': { terms: ['hiring', 'hire'], categories: ['hiring'] },
+  '员工': { terms: ['employees', 'employee'], categories: ['hiring'] },
+  '面试': { terms: ['interview', 'interviewing'], categories: ['hiring'] },
+  '远程': { terms: ['remote'], categories: ['culture'] },
+  '文化': { terms: ['culture'], categories: ['culture'] },
+  '公司文化': { terms: ['culture'], categories: ['culture'] },
+  '管理': { terms: ['management', 'manager'], categories: ['leadership'] },
+  '领导力': { terms: ['leadership', 'leader'], categories: ['leadership'] },
+
+  // Finance & survival
+  '财务': { terms: ['finance', 'financial'], categories: ['finance'] },
+  '现金流': { terms: ['cash', 'runway'], categories: ['finance'] },
+  '跑道': { terms: ['runway'], categories: ['finance'] },
+  '烧钱': { terms: ['burn', 'rate'], categories: ['finance'] },
+  '转型': { terms: ['pivot', 'pivoting'], categories: ['pivoting'] },
+  '失败': { terms: ['failure', 'fail'], categories: ['avoiding-failure'] },
+  '倒闭': { terms: ['shut', 'down', 'failure'], categories: ['avoiding-failure'] },
+  '规模化': { terms: ['scaling', 'scale'], categories: ['scaling'] },
+  '扩张': { terms: ['scaling', 'expand'], categories: ['scaling'] },
+
+  // Mindset
+  '心态': { terms: ['mindset'], categories: ['mindset'] },
+  '动力': { terms: ['motivation', 'motivated'], categories: ['mindset'] },
+  '倦怠': { terms: ['burnout'], categories: ['mindset'] },
+  '压力': { terms: ['stress'], categories: ['mindset'] },
+  '坚持': { terms: ['persistence', 'determination'], categories: ['mindset'] },
+
+  // Sectors & programs
+  '人工智能': { terms: ['ai', 'artificial', 'intelligence'], categories: ['ai'] },
+  '大模型': { terms: ['llm', 'models'], categories: ['ai'] },
+  '机器学习': { terms: ['machine', 'learning'], categories: ['ai'] },
+  '硬件': { terms: ['hardware'], categories: ['deep-tech'] },
+  '硬科技': { terms: ['hard', 'tech'], categories: ['deep-tech'] },
+  '生物科技': { terms: ['biotech'], categories: ['biotech'] },
+  '加密货币': { terms: ['crypto'], categories: ['crypto'] },
+  '区块链': { terms: ['crypto', 'blockchain'], categories: ['crypto'] },
+  '加速器': { terms: ['accelerator'], categories: ['accelerator'] },
+  '孵化器': { terms: ['accelerator', 'incubator'], categories: ['accelerator'] },
+  '申请': { terms: ['apply', 'application'], categories: ['accelerator'] },
+};
+
+const MAX_TERM_LENGTH = Math.max(...Object.keys(CHINESE_TERMS).map(t => t.length));
+
+/** Function words dropped from unmapped segments */
+const CHINESE_STOP_WORDS = new Set([
+  '如何', '怎么', '怎样', '什么', '为什么', '哪些', '是否', '应该', '可以', '需要',
+  '我们', '我的', '你们', '他们', '自己', '这个', '那个', '一个', '时候', '什么时候',
+  '关于', '以及', '还是', '或者', '因为', '所以', '如果', '但是', '已经', '现在',
+  '找到', '有没有', '吗', '呢', '的', '了', '是', '在', '我', '有', '和', '该',
+]);
+
+const CJK_RUN = /[\u4e00-\u9fa5]+/g;
+
+export interface ChineseAnalysis {
+  /** Segmented Chinese words (dictionary terms and other word-like segments) */
+  words: string[];
+  /** English terms mapped from dictionary words */
+  terms: string[];
+  /** Categories implied by dictionary words */
+  categories: Category[];
+}
+
+/** Word-segment text that is not covered by the dictionary */
+function segmentRemainder(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter('zh', { granularity: 'word' });
+    return Array.from(segmenter.segment(text))
+      .filter(s => s.isWordLike)
+      .map(s => s.segment);
+  }
+  return [text];
+}
+
+/** Forward maximum matching against the dictionary, Intl.Segmenter for the rest */
+export function segmentChinese(text: string): string[] {
+  const words: string[] = [];
+
+  for (const run of text.match(CJK_RUN) || []) {
+    let unmatched = '';
+    let i = 0;
+
+    while (i < run.length) {
+      let match = '';
+      for (let len = Math.min(MAX_TERM_LENGTH, run.length - i); len >= 2; len--) {
+        const candidate = run.slice(i, i + len);
+        if (CHINESE_TERMS[candidate]) {
+          match = candidate;
+          break;
+        }
+      }
+
+      if (match) {
+        if (unmatched) words.push(...segmentRemainder(unmatched));
+        unmatched = '';
+        words.push(match);
+        i += match.length;
+      } else {
+        unmatched += run[i];
+        i++;
+      }
+    }
+
+    if (unmatched) words.push(...segmentRemainder(unmatched));
+  }
+
+  return words.filter(w => w.length >= 2 && !CHINESE_STOP_WORDS.has(w));
+}
+
+/** Segment Chinese text and map dictionary words to English terms and categories */
+export function analyzeChinese(text: string): ChineseAnalysis {
+  const words = segmentChinese(text);
+  const terms = new Set<string>();
+  const categories = new Set<Category>();
+
+  for (const word of words) {
+    const mapping = CHINESE_TERMS[word];
+    if (!mapping) continue;
+    mapping.terms.forEach(t => terms.add(t));
+    mapping.categories?.forEach(c => categories.add(c));
+  }
+
+  return {
+    words,
+    terms: Array.from(terms),
+    categories: Array.from(categories),
+  };
+}
+
+/** Whether text contains Chinese characters */
+export function hasChinese(text: string): boolean {
+  return /[\u4e00-\u9fa5]/.test(text);
+}
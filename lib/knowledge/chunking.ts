@@ -0,0 +1,177 @@
+/**
+ * Heading-aware chunking of reference markdown
+ * Sections start at markdown headings; long sections are split at blank
+ * lines and short neighbours are merged, so chunks stay near a target size.
+ */
+
+import { ContentChunk, ChunkBoundary } from './types';
+
+export const CHUNK_INDEX_VERSION = '1.0';
+
+export interface ChunkOptions {
+  /** Soft upper bound on chunk size in characters */
+  maxChars: number;
+  /** Chunks smaller than this are merged into their neighbour */
+  minChars: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxChars: 2000,
+  minChars: 300,
+};
+
+interface Span {
+  heading?: string;
+  start: number;  // 0-based, inclusive
+  end: number;    // 0-based, exclusive
+  chars: number;
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+
+/** Strip markdown emphasis from a heading line */
+function cleanHeading(text: string): string {
+  return text.replace(/[*_`]/g, '').trim();
+}
+
+function spanChars(lines: string[], start: number, end: number): number {
+  let chars = 0;
+  for (let i = start; i < end; i++) chars += lines[i].length + 1;
+  return chars;
+}
+
+/** Split a document into heading-delimited sections */
+function splitSections(lines: string[]): Span[] {
+  const sections: Span[] = [];
+  let current: Span = { start: 0, end: 0, chars: 0 };
+
+  lines.forEach((line, i) => {
+    const match = line.match(HEADING_PATTERN);
+    if (match && i > current.start) {
+      current.end = i;
+      sections.push(current);
+      current = { heading: cleanHeading(match[1]), start: i, end: i, chars: 0 };
+    } else if (match) {
+      current.heading = cleanHeading(match[1]);
+    }
+  });
+
+  current.end = lines.length;
+  sections.push(current);
+
+  return sections.map(s => ({ ...s, chars: spanChars(lines, s.start, s.end) }));
+}
+
+/** Split an oversized section at paragraph breaks */
+function splitSection(lines: string[], section: Span, maxChars: number): Span[] {
+  if (section.chars <= maxChars) return [section];
+
+  const pieces: Span[] = [];
+  let start = section.start;
+  let chars = 0;
+  let lastBreak = -1;
+
+  for (let i = section.start; i < section.end; i++) {
+    chars += lines[i].length + 1;
+    if (lines[i].trim() === '') lastBreak = i;
+
+    if (chars > maxChars && lastBreak > start) {
+      pieces.push({ heading: section.heading, start, end: lastBreak + 1, chars: 0 });
+      start = lastBreak + 1;
+      chars = spanChars(lines, start, i + 1);
+      lastBreak = -1;
+    }
+  }
+
+  if (start < section.end) {
+    pieces.push({ heading: section.heading, start, end: section.end, chars: 0 });
+  }
+
+  return pieces.map(p => ({ ...p, chars: spanChars(lines, p.start, p.end) }));
+}
+
+/** Merge spans below minChars into the following span (or the previous one at the end) */
+function mergeSmall(spans: Span[], options: ChunkOptions): Span[] {
+  const merged: Span[] = [];
+  let pending: Span | null = null;
+
+  for (const span of spans) {
+    if (pending) {
+      if (pending.chars + span.chars <= options.maxChars) {
+        pending = {
+          heading: pending.heading || span.heading,
+          start: pending.start,
+          end: span.end,
+          chars: pending.chars + span.chars,
+        };
+      } else {
+        merged.push(pending);
+        pending = span;
+      }
+    } else {
+      pending = span;
+    }
+
+    if (pending.chars >= options.minChars) {
+      merged.push(pending);
+      pending = null;
+    }
+  }
+
+  if (pending) {
+    const last = merged[merged.length - 1];
+    if (last && last.chars + pending.chars <= options.maxChars) {
+      merged[merged.length - 1] = {
+        ...last,
+        end: pending.end,
+        chars: last.chars + pending.chars,
+      };
+    } else {
+      merged.push(pending);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Chunk a markdown document. Line numbers are 1-based and inclusive so they
+ * can be quoted directly in citations.
+ */
+export function chunkMarkdown(
+  code: string,
+  content: string,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): ContentChunk[] {
+  const lines = content.split('\n');
+  const spans = mergeSmall(
+    splitSections(lines).flatMap(section => splitSection(lines, section, options.maxChars)),
+    options
+  );
+
+  return spans
+    .map(span => {
+      // Tighten the range so cited line numbers point at text
+      let { start, end } = span;
+      while (start < end && lines[start].trim() === '') start++;
+      while (end > start && lines[end - 1].trim() === '') end--;
+      return { ...span, start, end };
+    })
+    .filter(span => span.end > span.start)
+    .map((span, i) => ({
+      id: `${code}#${i}`,
+      text: lines.slice(span.start, span.end).join('\n'),
+      startLine: span.start + 1,
+      endLine: span.end,
+      ...(span.heading && { heading: span.heading }),
+    }));
+}
+
+/** Re-materialize chunk text from stored line ranges */
+export function sliceChunks(content: string, boundaries: ChunkBoundary[]): ContentChunk[] {
+  const lines = content.split('\n');
+  return boundaries.map(boundary => ({
+    ...boundary,
+    text: lines.slice(boundary.startLine - 1, boundary.endLine).join('\n').trim(),
+  }));
+}
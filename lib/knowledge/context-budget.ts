@@ -0,0 +1,193 @@
+/**
+ * Context budgeting
+ * Fits retrieved passages into a token budget for the system prompt.
+ * Resources share the budget fairly (unused share flows to resources that
+ * need more); within a resource the most relevant passages are kept first
+ * and one that does not fit is trimmed at a line boundary (or inside its
+ * first line, at a sentence boundary where possible). Budget left over goes
+ * to the remaining passages in relevance order.
+ */
+
+import { RetrievedChunk, BudgetedContext, TruncatedResource } from './types';
+import { estimateTokens } from '../llm/tokens';
+
+/** Per-passage formatting overhead (heading line, separators) */
+const PASSAGE_OVERHEAD_TOKENS = 30;
+
+/** Per-resource formatting overhead (title, author, topics) */
+const RESOURCE_OVERHEAD_TOKENS = 40;
+
+/** Trimmed passages shorter than this are dropped instead */
+const MIN_TRIMMED_TOKENS = 120;
+
+const TRIM_MARKER = '\n…';
+
+/** Sentence ends a line is preferably cut after */
+const SENTENCE_END = /[。！？；.!?;]["'”’)）]*\s*/g;
+
+interface ResourceGroup {
+  code: string;
+  chunks: RetrievedChunk[];
+  demand: number;
+}
+
+function passageCost(chunk: RetrievedChunk): number {
+  return estimateTokens(chunk.chunk.text) + PASSAGE_OVERHEAD_TOKENS;
+}
+
+/** Longest prefix of `line` within `maxTokens`, ending at a sentence if one fits */
+function cutLine(line: string, maxTokens: number): string {
+  const chars = Array.from(line);
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(chars.slice(0, mid).join('')) <= maxTokens) low = mid;
+    else high = mid - 1;
+  }
+
+  const prefix = chars.slice(0, low).join('');
+  let sentenceEnd = 0;
+  for (const match of prefix.matchAll(SENTENCE_END)) {
+    sentenceEnd = match.index! + match[0].length;
+  }
+  // A sentence boundary is only worth it if it keeps most of what fits
+  return sentenceEnd >= prefix.length / 2 ? prefix.slice(0, sentenceEnd).trimEnd() : prefix;
+}
+
+/**
+ * Keep leading lines of a passage within `maxTokens`, adjusting its line
+ * range. A first line longer than the budget is cut inside so the passage
+ * still contributes.
+ */
+function trimChunk(retrieved: RetrievedChunk, maxTokens: number): RetrievedChunk | null {
+  const textBudget = maxTokens - PASSAGE_OVERHEAD_TOKENS - estimateTokens(TRIM_MARKER);
+  if (textBudget < MIN_TRIMMED_TOKENS) return null;
+
+  const { chunk } = retrieved;
+  const lines = chunk.text.split('\n');
+  const kept: string[] = [];
+  let used = 0;
+
+  for (const line of lines) {
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > textBudget) {
+      if (kept.some(k => k.trim())) break;
+      const cut = cutLine(line, textBudget - used - 1);
+      kept.push(cut);
+      used += estimateTokens(cut) + 1;
+      break;
+    }
+    kept.push(line);
+    used += cost;
+  }
+
+  // Drop trailing blank lines so the range ends on content
+  while (kept.length > 0 && !kept[kept.length - 1].trim()) kept.pop();
+  if (used < MIN_TRIMMED_TOKENS || kept.length === 0) return null;
+
+  return {
+    ...retrieved,
+    chunk: {
+      ...chunk,
+      text: kept.join('\n') + TRIM_MARKER,
+      endLine: chunk.startLine + kept.length - 1,
+    },
+  };
+}
+
+/**
+ * Fit passages (in relevance order) into `budgetTokens`. Output keeps the
+ * input order; resources that lost or shortened passages are reported.
+ */
+export function fitToBudget(chunks: RetrievedChunk[], budgetTokens: number): BudgetedContext {
+  // Group by resource in order of first (best) appearance
+  const groups = new Map<string, ResourceGroup>();
+  for (const retrieved of chunks) {
+    const code = retrieved.meta.code;
+    if (!groups.has(code)) {
+      groups.set(code, { code, chunks: [], demand: RESOURCE_OVERHEAD_TOKENS });
+    }
+    const group = groups.get(code)!;
+    group.chunks.push(retrieved);
+    group.demand += passageCost(retrieved);
+  }
+
+  // Water-filling: the smallest demands are met in full, the rest share what remains
+  const allowance = new Map<string, number>();
+  let remaining = budgetTokens;
+  const byDemand = Array.from(groups.values()).sort((a, b) => a.demand - b.demand);
+  byDemand.forEach((group, i) => {
+    const share = Math.floor(remaining / (byDemand.length - i));
+    const granted = Math.min(group.demand, share);
+    allowance.set(group.code, granted);
+    remaining -= granted;
+  });
+
+  const kept = new Map<string, RetrievedChunk>();
+  const trimmed = new Set<string>();
+  const spent = new Map<string, number>();
+  let usedTokens = 0;
+
+  /** Keep a passage (trimmed if needed) within `limit` tokens; returns tokens used */
+  const place = (retrieved: RetrievedChunk, limit: number): number => {
+    const overhead = spent.has(retrieved.meta.code) ? 0 : RESOURCE_OVERHEAD_TOKENS;
+    const available = limit - overhead;
+    if (available <= 0) return 0;
+
+    let placed: RetrievedChunk | null = retrieved;
+    if (passageCost(retrieved) > available) {
+      placed = trimChunk(retrieved, available);
+      if (!placed) return 0;
+      trimmed.add(retrieved.chunk.id);
+    }
+
+    const cost = passageCost(placed) + overhead;
+    kept.set(retrieved.chunk.id, placed);
+    spent.set(retrieved.meta.code, (spent.get(retrieved.meta.code) || 0) + cost);
+    usedTokens += cost;
+    return cost;
+  };
+
+  // Pass 1: each resource fills its fair share, best passages first
+  for (const group of groups.values()) {
+    let left = allowance.get(group.code)!;
+    for (const retrieved of group.chunks) {
+      left -= place(retrieved, left);
+    }
+  }
+
+  // Pass 2: budget a resource could not use goes to the remaining passages by relevance
+  for (const retrieved of chunks) {
+    if (kept.has(retrieved.chunk.id)) continue;
+    place(retrieved, budgetTokens - usedTokens);
+  }
+
+  const truncated: TruncatedResource[] = [];
+  for (const group of groups.values()) {
+    const dropped = group.chunks.filter(c => !kept.has(c.chunk.id)).map(c => c.chunk.id);
+    const shortened = group.chunks.filter(c => trimmed.has(c.chunk.id)).map(c => c.chunk.id);
+    if (dropped.length === 0 && shortened.length === 0) continue;
+
+    const included = group.chunks
+      .filter(c => kept.has(c.chunk.id))
+      .reduce((sum, c) => sum + passageCost(kept.get(c.chunk.id)!), 0);
+    truncated.push({
+      code: group.code,
+      title: group.chunks[0].meta.title,
+      originalTokens: group.demand - RESOURCE_OVERHEAD_TOKENS,
+      includedTokens: included,
+      droppedChunks: dropped,
+      trimmedChunks: shortened,
+    });
+  }
+
+  return {
+    chunks: chunks
+      .filter(c => kept.has(c.chunk.id))
+      .map(c => kept.get(c.chunk.id)!),
+    truncated,
+    budgetTokens,
+    usedTokens,
+  };
+}
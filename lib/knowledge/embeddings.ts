@@ -0,0 +1,96 @@
+/**
+ * Embedders for semantic search
+ * The embedding index is built offline by scripts/build-index.ts; queries
+ * must be embedded with the same model recorded in the index.
+ */
+
+import { KnowledgeBaseError } from './types';
+import { analyze } from './bm25';
+
+export const EMBEDDING_INDEX_VERSION = '1.0';
+
+export const DEFAULT_EMBEDDING_MODEL = 'hashing-256';
+
+export interface Embedder {
+  /** Model id recorded in the embedding index */
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// ============================================================================
+// Hashing Embedder
+// ============================================================================
+
+/** 32-bit FNV-1a hash */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic feature-hashing embedder over stemmed unigrams and bigrams.
+ * CPU-only with no model download, so it also serves as the test embedder.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly model: string;
+
+  constructor(readonly dimensions: number = 256) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const terms = analyze(text);
+    const features = new Map<string, number>();
+    terms.forEach((term, i) => {
+      features.set(term, (features.get(term) || 0) + 1);
+      if (i > 0) {
+        const bigram = `${terms[i - 1]} ${term}`;
+        features.set(bigram, (features.get(bigram) || 0) + 1);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, tf] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(tf));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm === 0 ? vector : vector.map(x => x / norm);
+  }
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const embedderFactories = new Map<string, () => Embedder>([
+  ['hashing-256', () => new HashingEmbedder(256)],
+  ['hashing-512', () => new HashingEmbedder(512)],
+]);
+
+/**
+ * Register an embedder (e.g. a local transformer model) under a model id
+ * usable in KnowledgeBaseConfig.embeddingModel and EMBEDDING_MODEL.
+ */
+export function registerEmbedder(model: string, factory: () => Embedder): void {
+  embedderFactories.set(model, factory);
+}
+
+export function createEmbedder(model: string = DEFAULT_EMBEDDING_MODEL): Embedder {
+  const factory = embedderFactories.get(model);
+  if (!factory) {
+    throw new KnowledgeBaseError(`Unknown embedding model: ${model}`, 'UNKNOWN_EMBEDDING_MODEL');
+  }
+  return factory();
+}
@@ -4,8 +4,13 @@
 
 export * from './types';
 export * from './knowledge-base';
-export * from './skill-knowledge-simple';
 export * from './search';
+export * from './bm25';
+export * from './chunking';
+export * from './embeddings';
+export * from './chinese';
+export * from './query-rewrite';
+export * from './context-budget';
 
 // Re-export commonly used types
 export {
@@ -14,13 +19,6 @@ export {
   resetKnowledgeBase,
 } from './knowledge-base';
 
-// Use simplified version that works on Vercel
-export {
-  YCSkillKnowledge,
-  getYCSkillKnowledge,
-  type SkillContent,
-} from './skill-knowledge-simple';
-
 export {
   SearchUtils,
   parseQuery,
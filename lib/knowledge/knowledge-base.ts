@@ -9,17 +9,30 @@ import {
   SearchQuery,
   SearchResult,
   SearchFilters,
+  SearchBoosts,
   SearchFacets,
   ScoredResource,
   KnowledgeIndex,
   Category,
+  CategoryInfo,
+  CATEGORIES,
   ResourceType,
   FounderStage,
   CacheEntry,
   KnowledgeBaseConfig,
   DEFAULT_CONFIG,
   ResourceNotFoundError,
+  Bm25Index,
+  ChunkIndex,
+  ContentChunk,
+  RetrievedChunk,
+  EmbeddingIndex,
 } from './types';
+import { analyze, scoreBm25 } from './bm25';
+import { sliceChunks } from './chunking';
+import { Embedder, createEmbedder } from './embeddings';
+import { cosineSimilarity } from './search';
+import { analyzeChinese, hasChinese } from './chinese';
 
 // ============================================================================
 // Utility Functions
@@ -51,9 +64,20 @@ function extractKeywords(text: string): string[] {
     'own', 'same', 'so', 'than', 'too', 'very', 'just', 'get', 'like'
   ]);
   
-  return words.filter(word => 
+  const keywords = words.filter(word => 
     word.length > 2 && !stopWords.has(word)
   );
+  
+  // Joined hyphenated forms match the full-text index ("co-founder" -> "cofounder")
+  const hyphenated = (text.toLowerCase().match(/\w+(?:-\w+)+/g) || [])
+    .map(word => word.replace(/-/g, ''));
+  
+  // Chinese words contribute their mapped English terms and categories
+  const { terms, categories } = hasChinese(text)
+    ? analyzeChinese(text)
+    : { terms: [], categories: [] };
+  
+  return Array.from(new Set([...keywords, ...hyphenated, ...terms, ...categories]));
 }
 
 /** Calculate keyword match score */
@@ -97,6 +121,34 @@ function calculateKeywordScore(
   return { score: totalScore, matches };
 }
 
+/**
+ * Weight of metadata keyword scores relative to BM25 body scores.
+ * A title hit (15 per keyword) adds ~1.5, on the order of one strong body term.
+ */
+const METADATA_SCORE_WEIGHT = 0.1;
+
+/** Minimum cosine similarity for a vector-only match in hybrid search */
+const MIN_SEMANTIC_SIMILARITY = 0.15;
+
+/**
+ * Score multipliers for boosted stages and categories. Multiplicative, so a
+ * boost reorders comparable matches without lifting weak ones past strong ones.
+ */
+const STAGE_BOOST = 1.25;
+const CATEGORY_BOOST = 1.15;
+
+/** Apply ranking preferences to scored resources (in place) */
+function applyBoosts(scored: ScoredResource[], boosts: SearchBoosts): void {
+  for (const sr of scored) {
+    if (boosts.stages?.some(stage => sr.resource.founderStage.includes(stage))) {
+      sr.score *= STAGE_BOOST;
+    }
+    if (boosts.categories?.some(category => sr.resource.topics.includes(category))) {
+      sr.score *= CATEGORY_BOOST;
+    }
+  }
+}
+
 /** Apply filters to resources */
 function applyFilters(
   resources: ResourceMeta[],
@@ -233,6 +285,10 @@ class LRUCache<K, V> {
 
 export class KnowledgeBase {
   private index: KnowledgeIndex | null = null;
+  private bm25: Bm25Index | null = null;
+  private chunkIndex: ChunkIndex | null = null;
+  private embeddings: EmbeddingIndex | null = null;
+  private embedder: Embedder | null = null;
   private config: KnowledgeBaseConfig;
   private resourceCache: LRUCache<string, Resource>;
   private searchCache: LRUCache<string, SearchResult>;
@@ -321,6 +377,17 @@ export class KnowledgeBase {
         this.index = await response.json() as KnowledgeIndex;
       }
       
+      this.bm25 = await this.loadOptionalIndex<Bm25Index>(
+        this.config.bm25IndexPath,
+        process.env.BM25_INDEX_PATH
+      );
+      this.chunkIndex = await this.loadOptionalIndex<ChunkIndex>(
+        this.config.chunkIndexPath,
+        process.env.CHUNK_INDEX_PATH
+      );
+      if (this.config.enableSemantic) {
+        await this.initializeSemantic();
+      }
       this.initialized = true;
     } catch (error) {
       const initTime = Date.now() - initStartTime;
@@ -329,6 +396,84 @@ export class KnowledgeBase {
     }
   }
   
+  /**
+   * Load an optional derived index (BM25, chunks). Search degrades
+   * gracefully when one is unavailable.
+   */
+  private async loadOptionalIndex<T>(configPath: string, envPath?: string): Promise<T | null> {
+    if (typeof window !== 'undefined') return null;
+    
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    
+    const fileName = path.basename(configPath);
+    const possiblePaths = [
+      envPath,
+      path.resolve(configPath),
+      path.join(process.cwd(), 'data', fileName),
+      path.join('/var/task/data', fileName),
+    ].filter(Boolean) as string[];
+    
+    for (const indexPath of possiblePaths) {
+      try {
+        const data = await fs.readFile(indexPath, 'utf-8');
+        console.log(`[KnowledgeBase] Loaded ${fileName} from: ${indexPath}`);
+        return JSON.parse(data) as T;
+      } catch {
+        continue;
+      }
+    }
+    
+    console.warn(`[KnowledgeBase] ${fileName} not found, continuing without it`);
+    return null;
+  }
+  
+  /**
+   * Load the embedding index and the embedder it was built with
+   */
+  private async initializeSemantic(): Promise<void> {
+    this.embeddings = await this.loadOptionalIndex<EmbeddingIndex>(
+      this.config.embeddingIndexPath,
+      process.env.EMBEDDING_INDEX_PATH
+    );
+    if (!this.embeddings) return;
+    
+    if (this.config.embeddingModel && this.config.embeddingModel !== this.embeddings.model) {
+      console.warn(`[KnowledgeBase] Embedding index was built with ${this.embeddings.model}, not ${this.config.embeddingModel}; using the index model`);
+    }
+    
+    try {
+      this.embedder = createEmbedder(this.embeddings.model);
+    } catch (error) {
+      console.warn('[KnowledgeBase] Semantic search disabled:', error);
+      this.embeddings = null;
+    }
+  }
+  
+  /**
+   * Whether hybrid keyword + vector search is available
+   */
+  isSemanticEnabled(): boolean {
+    return this.embeddings !== null && this.embedder !== null;
+  }
+  
+  /**
+   * Cosine similarity of every indexed resource to the query embedding
+   */
+  private async scoreSemantic(query: SearchQuery): Promise<Map<string, number> | null> {
+    if (!this.embeddings || !this.embedder) return null;
+    
+    const vector = query.embedding
+      || (query.rawQuery ? (await this.embedder.embed([query.rawQuery]))[0] : undefined);
+    if (!vector || vector.length !== this.embeddings.dimensions) return null;
+    
+    const scores = new Map<string, number>();
+    this.embeddings.docs.forEach((code, i) => {
+      scores.set(code, cosineSimilarity(vector, this.embeddings!.vectors[i]));
+    });
+    return scores;
+  }
+  
   /**
    * Ensure initialized
    */
@@ -351,7 +496,15 @@ export class KnowledgeBase {
    */
   getResourceMeta(code: string): ResourceMeta | undefined {
     this.ensureInitialized();
-    return this.index!.resources[code];
+    return this.findResource(code);
+  }
+  
+  /**
+   * Own-property lookup, so codes like "constructor" or "toString" do not
+   * resolve to Object.prototype members
+   */
+  private findResource(code: string): ResourceMeta | undefined {
+    return Object.hasOwn(this.index!.resources, code) ? this.index!.resources[code] : undefined;
   }
   
   /**
@@ -360,10 +513,43 @@ export class KnowledgeBase {
   getResourcesByCodes(codes: string[]): ResourceMeta[] {
     this.ensureInitialized();
     return codes
-      .map(code => this.index!.resources[code])
+      .map(code => this.findResource(code))
       .filter((r): r is ResourceMeta => r !== undefined);
   }
   
+  /**
+   * Get related resources: explicit `related` codes first, then
+   * resources sharing the most specific topics
+   */
+  getRelatedResources(code: string, limit: number = 5): ResourceMeta[] {
+    this.ensureInitialized();
+    const meta = this.findResource(code);
+    if (!meta) {
+      throw new ResourceNotFoundError(code);
+    }
+    
+    const related = this.getResourcesByCodes(meta.related || []).slice(0, limit);
+    if (related.length >= limit) return related;
+    
+    const topics = meta.topics.filter(topic => topic !== 'general');
+    if (topics.length === 0) return related;
+    
+    const seen = new Set([code, ...related.map(r => r.code)]);
+    const byOverlap = this.getAllResources()
+      .filter(r => !seen.has(r.code))
+      .map(r => ({
+        resource: r,
+        overlap: r.topics.filter(topic => topics.includes(topic)).length,
+      }))
+      .filter(r => r.overlap > 0)
+      .sort((a, b) => b.overlap - a.overlap);
+    
+    return [
+      ...related,
+      ...byOverlap.slice(0, limit - related.length).map(r => r.resource),
+    ];
+  }
+  
   /**
    * Get resources by category
    */
@@ -411,7 +597,7 @@ export class KnowledgeBase {
     const cached = this.resourceCache.get(code);
     if (cached) return cached;
     
-    const meta = this.index!.resources[code];
+    const meta = this.findResource(code);
     if (!meta) {
       throw new ResourceNotFoundError(code);
     }
@@ -467,9 +653,11 @@ export class KnowledgeBase {
         throw new Error('Failed to load content');
       }
       
+      const boundaries = this.chunkIndex?.chunks[code];
       const resource: Resource = {
         ...meta,
         content,
+        ...(boundaries && { chunks: sliceChunks(content, boundaries) }),
       };
       
       // Cache the resource
@@ -487,6 +675,85 @@ export class KnowledgeBase {
     }
   }
   
+  /**
+   * Retrieve the best-matching chunks across resources. Without a query
+   * match, falls back to the leading chunks of the candidate resources.
+   */
+  async retrieveChunks(
+    query: string,
+    options: {
+      /** Restrict to these resources (in priority order) */
+      codes?: string[];
+      limit?: number;
+      perResource?: number;
+    } = {}
+  ): Promise<RetrievedChunk[]> {
+    this.ensureInitialized();
+    
+    const limit = options.limit || this.config.defaultLimit;
+    const perResource = options.perResource || limit;
+    const allowed = options.codes ? new Set(options.codes) : null;
+    
+    // Rank chunk ids
+    let ranked: { code: string; id: string; score: number }[] = [];
+    const keywords = extractKeywords(query);
+    
+    if (this.chunkIndex && keywords.length > 0) {
+      const scores = scoreBm25(this.chunkIndex.bm25, analyze(keywords.join(' ')));
+      for (const [id, score] of scores) {
+        const code = id.slice(0, id.lastIndexOf('#'));
+        if (!allowed || allowed.has(code)) {
+          ranked.push({ code, id, score });
+        }
+      }
+      ranked.sort((a, b) => b.score - a.score);
+    }
+    
+    if (ranked.length === 0) {
+      ranked = (options.codes || []).flatMap(code =>
+        (this.chunkIndex?.chunks[code] || [{ id: `${code}#0` }])
+          .slice(0, perResource)
+          .map(({ id }) => ({ code, id, score: 0 }))
+      );
+    }
+    
+    // Cap chunks per resource, then take the top `limit`
+    const perResourceCount = new Map<string, number>();
+    const selected = ranked.filter(({ code }) => {
+      const count = perResourceCount.get(code) || 0;
+      if (count >= perResource) return false;
+      perResourceCount.set(code, count + 1);
+      return true;
+    }).slice(0, limit);
+    
+    // Materialize chunk text from the loaded resources
+    const resources = new Map<string, Resource>();
+    for (const code of new Set(selected.map(s => s.code))) {
+      try {
+        resources.set(code, await this.loadResource(code));
+      } catch (error) {
+        console.warn(`[KnowledgeBase] Skipping resource ${code}:`, error);
+      }
+    }
+    
+    const results: RetrievedChunk[] = [];
+    for (const { code, id, score } of selected) {
+      const resource = resources.get(code);
+      if (!resource) continue;
+      
+      const { content, chunks, ...meta } = resource;
+      // Without a chunk index the whole document is a single chunk
+      const chunk: ContentChunk | undefined = chunks
+        ? chunks.find(c => c.id === id)
+        : { id, text: content, startLine: 1, endLine: content.split('\n').length };
+      if (chunk) {
+        results.push({ meta, chunk, score });
+      }
+    }
+    
+    return results;
+  }
+  
   /**
    * Search resources
    */
@@ -510,17 +777,48 @@ export class KnowledgeBase {
       candidates = applyFilters(candidates, query.filters);
     }
     
-    // Score by keywords (Level 2)
+    // Score by keywords (Level 2): BM25 over bodies plus metadata matches
     let scoredResources: ScoredResource[] = [];
+    const semanticScores = query.semantic ? await this.scoreSemantic(query) : null;
     
-    if (query.keywords.length > 0) {
+    if (query.keywords.length > 0 || semanticScores) {
+      const contentScores = this.bm25 && query.keywords.length > 0
+        ? scoreBm25(this.bm25, analyze(query.keywords.join(' ')))
+        : new Map<string, number>();
+      
       for (const resource of candidates) {
-        const { score, matches } = calculateKeywordScore(resource, query.keywords);
-        if (score > 0 || query.keywords.length === 0) {
+        const { score: metadataScore, matches } = calculateKeywordScore(resource, query.keywords);
+        const contentScore = contentScores.get(resource.code) || 0;
+        if (contentScore > 0) {
+          matches.push({ field: 'content', matched: query.keywords.join(' '), score: contentScore });
+        }
+        
+        const score = contentScore + metadataScore * METADATA_SCORE_WEIGHT;
+        const similarity = Math.max(0, semanticScores?.get(resource.code) || 0);
+        if (similarity >= MIN_SEMANTIC_SIMILARITY) {
+          matches.push({ field: 'semantic', matched: 'embedding', score: similarity });
+        }
+        
+        if (score > 0 || similarity >= MIN_SEMANTIC_SIMILARITY) {
           scoredResources.push({ resource, score, matches });
         }
       }
       
+      // Hybrid (Level 3): blend max-normalized keyword score with similarity
+      if (semanticScores) {
+        const maxScore = Math.max(...scoredResources.map(sr => sr.score), 0);
+        const w = this.config.semanticWeight;
+        for (const sr of scoredResources) {
+          const keywordPart = maxScore > 0 ? sr.score / maxScore : 0;
+          const similarity = Math.max(0, semanticScores.get(sr.resource.code) || 0);
+          sr.score = (1 - w) * keywordPart + w * similarity;
+        }
+      }
+      
+      if (query.boosts) {
+        applyBoosts(scoredResources, query.boosts);
+      }
+      
       // Sort by score
       scoredResources.sort((a, b) => b.score - a.score);
     } else {
@@ -532,8 +830,9 @@ export class KnowledgeBase {
       }));
     }
     
-    // Calculate total before pagination
+    // Calculate total and facets from all matches (before pagination)
     const total = scoredResources.length;
+    const facets = calculateFacets(scoredResources.map(sr => sr.resource));
     
     // Apply pagination
     const offset = query.offset || 0;
@@ -543,15 +842,6 @@ export class KnowledgeBase {
     // Extract resources
     const resources = scoredResources.map(sr => sr.resource);
     
-    // Calculate facets from all matching resources (before pagination)
-    const allMatching = query.keywords.length > 0 
-      ? candidates.filter(c => 
-          scoredResources.some(sr => sr.resource.code === c.code) ||
-          calculateKeywordScore(c, query.keywords).score > 0
-        )
-      : candidates;
-    const facets = calculateFacets(allMatching);
-    
     const result: SearchResult = {
       resources,
       total,
@@ -574,6 +864,8 @@ export class KnowledgeBase {
     options: {
       filters?: SearchFilters;
       limit?: number;
+      offset?: number;
+      semantic?: boolean;
     } = {}
   ): Promise<SearchResult> {
     const keywords = extractKeywords(query);
@@ -582,20 +874,52 @@ export class KnowledgeBase {
       keywords,
       rawQuery: query,
       filters: options.filters || {},
+      semantic: options.semantic,
+      limit: Math.min(options.limit || this.config.defaultLimit, this.config.maxResults),
+      offset: options.offset,
+    });
+  }
+  
+  /**
+   * Discovery step of the chat workflow: rank resources for a free-text
+   * query. Unlike quickSearch, a query without matches never falls back to
+   * listing every filtered resource: results are keyword matches, plus
+   * embedding-similar resources when semantic search is enabled.
+   */
+  async discover(
+    query: string,
+    options: {
+      filters?: SearchFilters;
+      boosts?: SearchBoosts;
+      limit?: number;
+    } = {}
+  ): Promise<ResourceMeta[]> {
+    const keywords = extractKeywords(query);
+    const semantic = this.isSemanticEnabled();
+    if (keywords.length === 0 && !semantic) return [];
+    
+    const result = await this.search({
+      keywords,
+      rawQuery: query,
+      filters: options.filters || {},
+      boosts: options.boosts,
+      semantic,
       limit: options.limit || this.config.defaultLimit,
     });
+    
+    return result.resources;
   }
   
   /**
-   * Get category information
+   * Get category information for the canonical categories
    */
-  getCategories(): { id: Category; name: string; count: number }[] {
+  getCategories(): CategoryInfo[] {
     this.ensureInitialized();
     
-    return Object.entries(this.index!.categories).map(([id, data]) => ({
-      id: id as Category,
+    return CATEGORIES.map(id => ({
+      id,
       name: id.charAt(0).toUpperCase() + id.slice(1).replace(/-/g, ' '),
-      count: data.count,
+      count: this.index!.categories[id]?.count || 0,
     }));
   }
   
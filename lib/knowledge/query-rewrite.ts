@@ -0,0 +1,189 @@
+/**
+ * Query rewriting
+ * Condenses the conversation and the latest message into a standalone
+ * discovery query, optionally inferring category/stage filters.
+ */
+
+import {
+  Category,
+  FounderStage,
+  SearchFilters,
+} from './types';
+import { tokenize } from './search';
+import { analyzeChinese, hasChinese } from './chinese';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface RewrittenQuery {
+  /** The latest user message, unchanged */
+  original: string;
+  /** Standalone query used for discovery */
+  query: string;
+  /** Whether conversation context was folded into the query */
+  rewritten: boolean;
+  /** Filters inferred from the latest message */
+  filters: SearchFilters;
+}
+
+export interface QueryRewriter {
+  rewrite(message: string, history: ConversationTurn[]): Promise<RewrittenQuery>;
+}
+
+// ============================================================================
+// Follow-up Detection
+// ============================================================================
+
+/** Openers that only make sense with earlier turns */
+const FOLLOW_UP_OPENERS = [
+  /^(what|how) about\b/i,
+  /^(and|but|also|so|then)\b/i,
+  /^what if\b/i,
+  /^(那|那么|还有|如果|另外|同样)/,
+];
+
+/** References to something said earlier; only checked on shorter messages */
+const REFERENCE_PATTERNS = [
+  /\b(it|that|this|those|them|same)\b/i,
+  /(这个|那个|这些|那些|这样|它|他们)/,
+];
+
+/** A message with this many terms or fewer is treated as context-dependent */
+const SHORT_QUERY_TERMS = 3;
+
+/** Longer messages are assumed to carry their own context */
+const REFERENCE_QUERY_TERMS = 6;
+
+/** Earlier user turns folded into a follow-up query */
+const CONTEXT_TURNS = 2;
+
+/** Context terms appended to a follow-up query */
+const MAX_CONTEXT_TERMS = 8;
+
+function isFollowUp(message: string, terms: string[]): boolean {
+  const trimmed = message.trim();
+  return terms.length <= SHORT_QUERY_TERMS
+    || FOLLOW_UP_OPENERS.some(pattern => pattern.test(trimmed))
+    || (terms.length <= REFERENCE_QUERY_TERMS
+      && REFERENCE_PATTERNS.some(pattern => pattern.test(trimmed)));
+}
+
+// ============================================================================
+// Filter Inference
+// ============================================================================
+
+const STAGE_PATTERNS: { stage: FounderStage; patterns: RegExp[] }[] = [
+  { stage: 'pre-idea', patterns: [/\bpre-?idea\b/i, /\bno idea yet\b/i, /还没有(想法|点子|方向)/] },
+  { stage: 'idea', patterns: [/\bidea stage\b/i, /\bjust (have|had) an idea\b/i, /(想法|点子)阶段/, /刚有(想法|点子)/] },
+  { stage: 'building', patterns: [/\bpre-?launch\b/i, /\bbuilding (an|the|my|our) (mvp|product)\b/i, /(正在|还在)(开发|做产品)/, /(开发|上线前)阶段/] },
+  { stage: 'launched', patterns: [/\b(we|i) (just |have )?launched\b/i, /\bpost-?launch\b/i, /已经(上线|发布)/, /(上线|发布)(之后|以后)/] },
+  { stage: 'scaling', patterns: [/\bscaling (up|the company)\b/i, /\bseries [b-d]\b/i, /(快速)?扩张阶段/, /规模化阶段/] },
+];
+
+/**
+ * Categories whose names are specific enough to act as a filter; everyday
+ * words like "building" or "growth" (or 产品, 想法) are left to ranking.
+ */
+const NAMED_CATEGORIES: Category[] = [
+  'accelerator', 'ai', 'b2b', 'biotech', 'co-founders', 'crypto',
+  'deep-tech', 'fundraising', 'hiring', 'pivoting', 'pricing',
+];
+
+/** Categories named directly in the message ("b2b", "fundraising", "co-founders") */
+function detectCategories(message: string): Category[] {
+  const normalized = message.toLowerCase();
+  const found = new Set<Category>(
+    NAMED_CATEGORIES.filter(category =>
+      new RegExp(`\\b${category.replace(/-/g, '[- ]?')}\\b`).test(normalized)
+    )
+  );
+  if (hasChinese(message)) {
+    analyzeChinese(message).categories
+      .filter(category => NAMED_CATEGORIES.includes(category))
+      .forEach(category => found.add(category));
+  }
+  return Array.from(found);
+}
+
+function detectStage(message: string): FounderStage | undefined {
+  return STAGE_PATTERNS.find(({ patterns }) =>
+    patterns.some(pattern => pattern.test(message))
+  )?.stage;
+}
+
+/**
+ * Infer discovery filters from the latest message. A category filter is only
+ * inferred when the message names exactly one; stage filters keep resources
+ * marked for all stages.
+ */
+export function inferFilters(message: string): SearchFilters {
+  const filters: SearchFilters = {};
+
+  const categories = detectCategories(message);
+  if (categories.length === 1) {
+    filters.categories = categories;
+  }
+
+  const stage = detectStage(message);
+  if (stage) {
+    filters.stages = [stage, 'all'];
+  }
+
+  return filters;
+}
+
+// ============================================================================
+// Heuristic Rewriter
+// ============================================================================
+
+/**
+ * Rule-based rewriter: follow-up messages are expanded with the key terms of
+ * the preceding user turns; standalone messages pass through unchanged.
+ */
+export class HeuristicQueryRewriter implements QueryRewriter {
+  async rewrite(message: string, history: ConversationTurn[]): Promise<RewrittenQuery> {
+    const original = message.trim();
+    const filters = inferFilters(original);
+    const terms = tokenize(original);
+
+    const previousTurns = history
+      .filter(turn => turn.role === 'user' && turn.content.trim() !== original)
+      .slice(-CONTEXT_TURNS);
+
+    if (previousTurns.length === 0 || !isFollowUp(original, terms)) {
+      return { original, query: original, rewritten: false, filters };
+    }
+
+    // Most recent turn first, so its terms survive the cap
+    const seen = new Set(terms);
+    const contextTerms: string[] = [];
+    for (const turn of [...previousTurns].reverse()) {
+      for (const term of tokenize(turn.content)) {
+        if (seen.has(term)) continue;
+        seen.add(term);
+        contextTerms.push(term);
+      }
+    }
+
+    if (contextTerms.length === 0) {
+      return { original, query: original, rewritten: false, filters };
+    }
+
+    return {
+      original,
+      query: `${original} ${contextTerms.slice(0, MAX_CONTEXT_TERMS).join(' ')}`,
+      rewritten: true,
+      filters,
+    };
+  }
+}
+
+/** Rewriter that leaves the message untouched (query rewriting disabled) */
+export class PassthroughQueryRewriter implements QueryRewriter {
+  async rewrite(message: string): Promise<RewrittenQuery> {
+    const original = message.trim();
+    return { original, query: original, rewritten: false, filters: {} };
+  }
+}
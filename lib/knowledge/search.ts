@@ -6,6 +6,7 @@ import {
   ResourceMeta,
   Category,
 } from './types';
+import { analyzeChinese, hasChinese } from './chinese';
 
 // ============================================================================
 // Text Processing
@@ -24,13 +25,26 @@ const STOP_WORDS = new Set([
   ' startup', 'startups', 'founder', 'founders', 'company', 'companies'
 ]);
 
-/** Tokenize text into searchable terms */
+/**
+ * Tokenize text into searchable terms. Hyphenated words are joined
+ * ("co-founder" -> "cofounder"); Chinese text is segmented and mapped
+ * onto the English vocabulary.
+ */
 export function tokenize(text: string): string[] {
-  return text
+  const tokens = text
     .toLowerCase()
+    .replace(/(\w)-(?=\w)/g, '$1')
     .replace(/[^\w\s]/g, ' ')
     .split(/\s+/)
-    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+    .filter(word => word.length > 2);
+  
+  if (hasChinese(text)) {
+    // Mapped terms ("联合创始人" -> "cofounder") go through the same stop-word filter
+    const { words, terms } = analyzeChinese(text);
+    tokens.push(...terms, ...words);
+  }
+
+  return tokens.filter(word => !STOP_WORDS.has(word));
 }
 
 /** Create n-grams from text */
@@ -111,6 +111,48 @@ export interface ContentChunk {
   text: string;
   startLine: number;
   endLine: number;
+  /** Nearest markdown heading above the chunk */
+  heading?: string;
+}
+
+/**
+ * Chunk position without text (as stored in the chunk index)
+ */
+export type ChunkBoundary = Omit<ContentChunk, 'text'>;
+
+/**
+ * Chunk retrieved for a query, with its source resource
+ */
+export interface RetrievedChunk {
+  meta: ResourceMeta;
+  chunk: ContentChunk;
+  score: number;
+}
+
+/**
+ * Resource whose passages were cut to fit the context budget
+ */
+export interface TruncatedResource {
+  code: string;
+  title: string;
+  /** Tokens of the retrieved passages before budgeting */
+  originalTokens: number;
+  /** Tokens kept in the prompt */
+  includedTokens: number;
+  /** Passages left out entirely */
+  droppedChunks: string[];
+  /** Passages shortened to fit */
+  trimmedChunks: string[];
+}
+
+/**
+ * Retrieved passages fitted to a token budget
+ */
+export interface BudgetedContext {
+  chunks: RetrievedChunk[];
+  truncated: TruncatedResource[];
+  budgetTokens: number;
+  usedTokens: number;
 }
 
 /**
@@ -150,6 +192,17 @@ export interface SearchFilters {
   maxLines?: number;
 }
 
+/**
+ * Soft preferences: matching resources rank higher but nothing is excluded
+ */
+export interface SearchBoosts {
+  /** Prefer resources written for these founder stages */
+  stages?: FounderStage[];
+  
+  /** Prefer resources tagged with these categories */
+  categories?: Category[];
+}
+
 /**
  * Search query
  */
@@ -163,6 +216,9 @@ export interface SearchQuery {
   /** Filters to apply */
   filters: SearchFilters;
   
+  /** Ranking preferences applied after scoring */
+  boosts?: SearchBoosts;
+  
   /** Use semantic search */
   semantic?: boolean;
   
@@ -254,6 +310,51 @@ export interface KnowledgeIndex {
   };
 }
 
+/**
+ * BM25 full-text index over resource bodies (JSON)
+ */
+export interface Bm25Index {
+  version: string;
+  generatedAt: string;
+  params: {
+    k1: number;
+    b: number;
+  };
+  /** Resource codes, addressed by position in postings */
+  docs: string[];
+  /** Token count per document */
+  docLengths: number[];
+  avgDocLength: number;
+  /** Term -> flat [docIndex, termFrequency, docIndex, termFrequency, ...] */
+  postings: Record<string, number[]>;
+}
+
+/**
+ * Chunk-level index: boundaries per resource plus BM25 over chunk text
+ */
+export interface ChunkIndex {
+  version: string;
+  generatedAt: string;
+  /** Resource code -> chunk boundaries in document order */
+  chunks: Record<string, ChunkBoundary[]>;
+  /** BM25 index whose docs are chunk ids */
+  bm25: Bm25Index;
+}
+
+/**
+ * Embedding index over resources (JSON)
+ */
+export interface EmbeddingIndex {
+  version: string;
+  generatedAt: string;
+  /** Embedder model id; queries must use the same model */
+  model: string;
+  dimensions: number;
+  /** Resource codes, aligned with vectors */
+  docs: string[];
+  vectors: number[][];
+}
+
 /**
  * Cache entry
  */
@@ -298,6 +399,8 @@ export interface ApiSearchResponse {
 export interface ApiResourceResponse {
   meta: ResourceMeta;
   content: string;
+  /** Passage line ranges within content, for locating cited chunks */
+  chunks?: ChunkBoundary[];
   related: ResourceMeta[];
 }
 
@@ -349,6 +452,15 @@ export interface KnowledgeBaseConfig {
   /** Path to markdown files */
   contentPath: string;
   
+  /** Path to BM25 full-text index JSON */
+  bm25IndexPath: string;
+  
+  /** Path to chunk index JSON */
+  chunkIndexPath: string;
+  
+  /** Path to embedding index JSON (loaded when enableSemantic is set) */
+  embeddingIndexPath: string;
+  
   /** Cache size limit (number of entries) */
   cacheSize: number;
   
@@ -361,6 +473,9 @@ export interface KnowledgeBaseConfig {
   /** Embedding model name (for semantic search) */
   embeddingModel?: string;
   
+  /** Weight of vector similarity in hybrid ranking (0-1) */
+  semanticWeight: number;
+  
   /** Maximum results per search */
   maxResults: number;
   
@@ -371,9 +486,13 @@ export interface KnowledgeBaseConfig {
 export const DEFAULT_CONFIG: KnowledgeBaseConfig = {
   indexPath: './data/knowledge-index.json',
   contentPath: './references',
+  bm25IndexPath: './data/bm25-index.json',
+  chunkIndexPath: './data/chunk-index.json',
+  embeddingIndexPath: './data/embedding-index.json',
   cacheSize: 100,
   cacheTtl: 5 * 60 * 1000,  // 5 minutes
-  enableSemantic: false,
+  enableSemantic: process.env.ENABLE_SEMANTIC_SEARCH === 'true',
+  semanticWeight: 0.4,
   maxResults: 50,
   defaultLimit: 10,
 };
@@ -0,0 +1,117 @@
+/**
+ * LLM Providers - Main Entry Point
+ * The provider is selected by LLM_PROVIDER (openrouter | openai | mock).
+ */
+
+import { LLMProvider, LLMConfig, LLMProviderName, LLMConfigError } from './types';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { OpenRouterProvider } from './openrouter';
+import { MockProvider } from './mock';
+import { ModelInfo, getAllowedModels } from './models';
+
+export * from './types';
+export * from './openai-compatible';
+export * from './openrouter';
+export * from './mock';
+export * from './models';
+export * from './tokens';
+
+const PROVIDERS: LLMProviderName[] = ['openrouter', 'openai', 'mock'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openrouter: 'anthropic/claude-sonnet-4.5',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-advisor',
+};
+
+/** Positive integer setting; unset or malformed values (e.g. "30s") use the default */
+function parsePositiveInteger(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    console.warn(`[LLM] Invalid ${name}: ${value}, using ${fallback}`);
+    return fallback;
+  }
+  return parsed;
+}
+
+/** Read the provider configuration from environment variables */
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || 'openrouter') as LLMProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new LLMConfigError(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || undefined,
+    apiKey: provider === 'openrouter' ? env.OPENROUTER_API_KEY : env.OPENAI_API_KEY,
+    baseUrl: env.OPENAI_BASE_URL || undefined,
+    maxTokens: parsePositiveInteger('LLM_MAX_TOKENS', env.LLM_MAX_TOKENS, 4096),
+    temperature: parseFloat(env.LLM_TEMPERATURE || '0.7'),
+    timeoutMs: parsePositiveInteger('LLM_TIMEOUT_MS', env.LLM_TIMEOUT_MS, 30000),
+  };
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const defaultModel = config.model || DEFAULT_MODELS[config.provider];
+  const common = {
+    apiKey: config.apiKey,
+    defaultModel,
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    timeoutMs: config.timeoutMs,
+  };
+
+  switch (config.provider) {
+    case 'openrouter':
+      if (!config.apiKey || config.apiKey.length < 20) {
+        throw new LLMConfigError('OPENROUTER_API_KEY not configured or invalid');
+      }
+      return new OpenRouterProvider(common);
+
+    case 'openai':
+      // Self-hosted servers often need no key, but a base URL is required for them
+      if (!config.apiKey && !config.baseUrl) {
+        throw new LLMConfigError('OPENAI_BASE_URL or OPENAI_API_KEY must be configured');
+      }
+      return new OpenAICompatibleProvider({
+        ...common,
+        name: 'openai',
+        baseUrl: config.baseUrl || 'https://api.openai.com/v1',
+      });
+
+    case 'mock':
+      return new MockProvider();
+  }
+}
+
+// Singleton instances
+let providerInstance: LLMProvider | null = null;
+let allowedModels: ModelInfo[] | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!providerInstance) {
+    providerInstance = createLLMProvider(loadLLMConfig());
+  }
+  return providerInstance;
+}
+
+/**
+ * Models selectable per request for the configured provider; the first is
+ * the default. LLM_MAX_TOKENS caps every model's output limit.
+ */
+export function getModelAllowlist(): ModelInfo[] {
+  if (!allowedModels) {
+    const provider = getLLMProvider();
+    const { maxTokens } = loadLLMConfig();
+    allowedModels = getAllowedModels(provider.name as LLMProviderName, provider.defaultModel)
+      .map(m => ({ ...m, maxOutputTokens: Math.min(m.maxOutputTokens, maxTokens) }));
+  }
+  return allowedModels;
+}
+
+export function resetLLMProvider(): void {
+  providerInstance = null;
+  allowedModels = null;
+}
@@ -0,0 +1,74 @@
+/**
+ * Mock provider
+ * Deterministic offline answers for tests and local development: echoes the
+ * question and cites the resources listed in the system prompt.
+ */
+
+import {
+  LLMProvider,
+  LLMMessage,
+  CompletionOptions,
+  CompletionResult,
+  StreamChunk,
+} from './types';
+
+export interface MockProviderOptions {
+  /** Fixed reply; by default one is built from the prompt */
+  reply?: string;
+  /** Delay between streamed chunks */
+  chunkDelayMs?: number;
+}
+
+/** Resource lines in the system prompt: "- **Title** by Author (code)" */
+const CITATION_LINE = /^- \*\*(.+?)\*\* by (.+?) \(([^)]+)\)$/gm;
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock-advisor';
+
+  constructor(private options: MockProviderOptions = {}) {}
+
+  async complete(messages: LLMMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    return {
+      content: this.buildReply(messages),
+      model: options.model || this.defaultModel,
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: CompletionOptions = {}): AsyncGenerator<StreamChunk> {
+    const reply = this.buildReply(messages);
+    // Stream line by line, keeping line breaks, like a real model would
+    for (const chunk of reply.match(/[^\n]*\n|[^\n]+/g) || []) {
+      if (options.signal?.aborted) return;
+      if (this.options.chunkDelayMs) {
+        await new Promise(resolve => setTimeout(resolve, this.options.chunkDelayMs));
+      }
+      yield { content: chunk, model: options.model || this.defaultModel };
+    }
+  }
+
+  private buildReply(messages: LLMMessage[]): string {
+    return this.options.reply || buildMockReply(messages);
+  }
+}
+
+/**
+ * Templated offline answer: echoes the question and cites the resources
+ * listed in the system prompt. Shared with scripts/mock-llm-server.ts.
+ */
+export function buildMockReply(messages: LLMMessage[]): string {
+  const system = messages.find(m => m.role === 'system')?.content || '';
+  const question = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+  const sources = Array.from(system.matchAll(CITATION_LINE))
+    .map(([, title, author]) => ({ title, author }));
+
+  const lines = [
+    `（模拟回答）你的问题是：「${question}」`,
+    '',
+    ...sources.map(s => `- 参见 [${s.author} - ${s.title}]`),
+  ];
+  if (sources.length > 0) {
+    lines.push('', '## 参考资料', ...sources.map(s => `- ${s.author} - ${s.title}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,119 @@
+/**
+ * Model catalog and allowlist
+ * Clients may pick a model per request; only ids on the server-side
+ * allowlist are accepted.
+ */
+
+import { LLMProviderName, ModelNotAllowedError } from './types';
+
+export interface ModelPricing {
+  /** USD per million input tokens */
+  inputPerMillion: number;
+  /** USD per million output tokens */
+  outputPerMillion: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  provider: LLMProviderName;
+  /** Maximum prompt + completion tokens */
+  contextWindow: number;
+  /** Completion token cap sent as max_tokens */
+  maxOutputTokens: number;
+  pricing: ModelPricing;
+}
+
+/** Limits applied to configured models that are not in the catalog */
+const DEFAULT_LIMITS: Pick<ModelInfo, 'contextWindow' | 'maxOutputTokens' | 'pricing'> = {
+  contextWindow: 32000,
+  maxOutputTokens: 4096,
+  pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+export const MODEL_CATALOG: ModelInfo[] = [
+  {
+    id: 'anthropic/claude-sonnet-4.5',
+    label: 'Claude Sonnet 4.5',
+    provider: 'openrouter',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { inputPerMillion: 3, outputPerMillion: 15 },
+  },
+  {
+    id: 'anthropic/claude-haiku-4.5',
+    label: 'Claude Haiku 4.5',
+    provider: 'openrouter',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { inputPerMillion: 1, outputPerMillion: 5 },
+  },
+  {
+    id: 'openai/gpt-4o-mini',
+    label: 'GPT-4o mini (OpenRouter)',
+    provider: 'openrouter',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  },
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    provider: 'openai',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  },
+  {
+    id: 'mock-advisor',
+    label: 'Mock Advisor',
+    provider: 'mock',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+  },
+];
+
+/**
+ * Models clients may select: the catalog entries for the active provider,
+ * narrowed by LLM_ALLOWED_MODELS (comma-separated ids) when set. The default
+ * model is always allowed and listed first.
+ */
+export function getAllowedModels(
+  provider: LLMProviderName,
+  defaultModel: string,
+  env: NodeJS.ProcessEnv = process.env
+): ModelInfo[] {
+  const allowlist = env.LLM_ALLOWED_MODELS
+    ?.split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  const models = allowlist
+    ? allowlist.map(id =>
+        MODEL_CATALOG.find(m => m.id === id) || { id, label: id, provider, ...DEFAULT_LIMITS }
+      )
+    : MODEL_CATALOG.filter(m => m.provider === provider);
+
+  const defaultInfo = models.find(m => m.id === defaultModel)
+    || MODEL_CATALOG.find(m => m.id === defaultModel)
+    || { id: defaultModel, label: defaultModel, provider, ...DEFAULT_LIMITS };
+
+  return [defaultInfo, ...models.filter(m => m.id !== defaultModel)];
+}
+
+/** Resolve a requested model id against the allowlist (first entry is the default) */
+export function resolveModel(allowed: ModelInfo[], requested?: string): ModelInfo {
+  if (!requested) return allowed[0];
+  const model = allowed.find(m => m.id === requested);
+  if (!model) {
+    throw new ModelNotAllowedError(requested);
+  }
+  return model;
+}
+
+/** Cost in USD of a completion */
+export function estimateCost(model: ModelInfo, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * model.pricing.inputPerMillion
+    + completionTokens * model.pricing.outputPerMillion) / 1_000_000;
+}
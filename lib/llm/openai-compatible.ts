@@ -0,0 +1,200 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with OpenAI, vLLM, Ollama, LM Studio and any other server that
+ * implements POST {baseUrl}/chat/completions with SSE streaming.
+ */
+
+import {
+  LLMProvider,
+  LLMMessage,
+  CompletionOptions,
+  CompletionResult,
+  StreamChunk,
+  LLMProviderError,
+  LLMTimeoutError,
+} from './types';
+import { parseUsage } from './tokens';
+
+export interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  constructor(protected options: OpenAICompatibleOptions) {
+    this.name = options.name || 'openai';
+    this.defaultModel = options.defaultModel;
+  }
+
+  async complete(messages: LLMMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    const model = options.model || this.defaultModel;
+    // The timeout also covers reading the body, which can be slow for long answers
+    const data = await this.withTimeout(options, async signal => {
+      const response = await this.request(messages, options, false, signal);
+      return response.json();
+    });
+
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      model: data.model || model,
+      usage: parseUsage(data.usage),
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: CompletionOptions = {}): AsyncGenerator<StreamChunk> {
+    // The timeout covers the wait for headers; stalls are caught per read
+    const response = await this.withTimeout(options, signal => this.request(messages, options, true, signal));
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new LLMProviderError('No response body', this.name);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await this.readWithTimeout(reader);
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed || !trimmed.startsWith('data: ')) continue;
+
+          const data = trimmed.slice(6);
+
+          if (data === '[DONE]') {
+            return;
+          }
+
+          try {
+            const parsed = JSON.parse(data);
+            const delta = parsed.choices?.[0]?.delta?.content;
+            const usage = parseUsage(parsed.usage);
+            if (delta || usage) {
+              yield { content: delta || '', model: parsed.model, usage };
+            }
+          } catch {
+            // Skip invalid JSON
+          }
+        }
+      }
+    } finally {
+      // Release the connection on [DONE], errors, and consumers that stop early
+      reader.cancel().catch(() => undefined);
+    }
+  }
+
+  /** Read the next stream chunk, failing if the provider goes silent mid-stream */
+  private async readWithTimeout(
+    reader: ReadableStreamDefaultReader<Uint8Array>
+  ): Promise<ReadableStreamReadResult<Uint8Array>> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        // Reject before cancelling so the race is not won by the cancelled read
+        reject(new LLMTimeoutError(
+          `${this.name} stream stalled for ${this.options.timeoutMs}ms`,
+          this.name
+        ));
+        reader.cancel().catch(() => undefined);
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([reader.read(), timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /** Headers for every request; subclasses add provider-specific ones */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.options.headers,
+    };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Run a request under the provider timeout. The caller's signal aborts it
+   * as well, and keeps aborting the response body after the timeout ends.
+   */
+  private async withTimeout<T>(
+    options: CompletionOptions,
+    run: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.options.timeoutMs);
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    try {
+      return await run(controller.signal);
+    } catch (error) {
+      if (timedOut) {
+        throw new LLMTimeoutError(`${this.name} did not respond within ${this.options.timeoutMs}ms`, this.name);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /** POST the completion request, failing on non-2xx responses */
+  private async request(
+    messages: LLMMessage[],
+    options: CompletionOptions,
+    stream: boolean,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        messages,
+        max_tokens: options.maxTokens ?? this.options.maxTokens,
+        temperature: options.temperature ?? this.options.temperature,
+        stream,
+        // Ask for a final usage chunk (OpenAI; OpenRouter sends it regardless)
+        ...(stream && { stream_options: { include_usage: true } }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMProviderError(
+        `${this.name} API error: ${response.status} - ${errorText}`,
+        this.name,
+        response.status
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * OpenRouter provider
+ */
+
+import { OpenAICompatibleProvider, OpenAICompatibleOptions } from './openai-compatible';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor(options: Omit<OpenAICompatibleOptions, 'name' | 'baseUrl'> & { baseUrl?: string }) {
+    super({
+      ...options,
+      name: 'openrouter',
+      baseUrl: options.baseUrl || OPENROUTER_BASE_URL,
+      headers: {
+        // Attribution headers used for OpenRouter app rankings
+        'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
+        'X-Title': 'YC Advisor',
+        ...options.headers,
+      },
+    });
+  }
+}
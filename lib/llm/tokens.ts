@@ -0,0 +1,54 @@
+/**
+ * Token estimation
+ * Fallback when a provider does not report usage. Approximates BPE
+ * tokenizers: CJK characters cost about one token each, other text about
+ * four characters per token.
+ */
+
+import { LLMMessage, TokenUsage } from './types';
+
+/** Per-message formatting overhead (role markers, separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const CJK_CHAR = /[\u3000-\u303f\u3400-\u4dbf\u4e00-\u9fff\uff00-\uffef]/g;
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_CHAR)?.length || 0;
+  const rest = text.length - cjk;
+  return Math.ceil(cjk + rest / 4);
+}
+
+export function estimateMessagesTokens(messages: LLMMessage[]): number {
+  return messages.reduce(
+    (sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS,
+    0
+  );
+}
+
+/** Estimated usage for a prompt and its completion */
+export function estimateUsage(messages: LLMMessage[], completion: string): TokenUsage {
+  const promptTokens = estimateMessagesTokens(messages);
+  const completionTokens = estimateTokens(completion);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true,
+  };
+}
+
+/** Parse an OpenAI-style usage object */
+export function parseUsage(usage: unknown): TokenUsage | undefined {
+  if (!usage || typeof usage !== 'object') return undefined;
+  const { prompt_tokens, completion_tokens, total_tokens } = usage as Record<string, unknown>;
+  if (typeof prompt_tokens !== 'number' || typeof completion_tokens !== 'number') {
+    return undefined;
+  }
+  return {
+    promptTokens: prompt_tokens,
+    completionTokens: completion_tokens,
+    totalTokens: typeof total_tokens === 'number' ? total_tokens : prompt_tokens + completion_tokens,
+    estimated: false,
+  };
+}
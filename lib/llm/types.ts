@@ -0,0 +1,105 @@
+/**
+ * LLM Provider Types
+ */
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  /** Model id; defaults to the provider's configured model */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Aborts the request (in addition to the provider timeout) */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** True when estimated locally instead of reported by the provider */
+  estimated: boolean;
+}
+
+export interface CompletionResult {
+  content: string;
+  /** Model that answered, as reported by the provider */
+  model: string;
+  /** Usage reported by the provider */
+  usage?: TokenUsage;
+}
+
+export interface StreamChunk {
+  /** Text delta (may be empty on metadata-only chunks) */
+  content: string;
+  /** Model that answered, as reported by the provider */
+  model?: string;
+  /** Usage reported by the provider, usually on the final chunk */
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  /** Provider id, e.g. "openrouter" */
+  readonly name: string;
+  readonly defaultModel: string;
+
+  /** Generate a full completion */
+  complete(messages: LLMMessage[], options?: CompletionOptions): Promise<CompletionResult>;
+
+  /** Stream completion deltas */
+  stream(messages: LLMMessage[], options?: CompletionOptions): AsyncGenerator<StreamChunk>;
+}
+
+export type LLMProviderName = 'openrouter' | 'openai' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible API (ending in /v1) */
+  baseUrl?: string;
+  maxTokens: number;
+  temperature: number;
+  /** Time allowed until the provider starts responding */
+  timeoutMs: number;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+/** The provider did not respond, or went silent mid-stream, within the timeout */
+export class LLMTimeoutError extends LLMProviderError {
+  constructor(message: string, provider: string) {
+    super(message, provider);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+export class ModelNotAllowedError extends Error {
+  constructor(public model: string) {
+    super(`Model not allowed: ${model}`);
+    this.name = 'ModelNotAllowedError';
+  }
+}
+
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigError';
+  }
+}
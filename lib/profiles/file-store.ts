@@ -0,0 +1,51 @@
+// 文件档案存储
+// 每个所有者一个 JSON 文件：<baseDir>/<所有者摘要>.json
+// 档案整体覆盖写入，同一所有者的并发更新以最后一次为准
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { FounderProfile, ProfileStore } from '../types';
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+export class FileProfileStore implements ProfileStore {
+  constructor(private baseDir: string) {}
+
+  // 所有者 id 可能包含密钥名，取摘要作为文件名
+  private filePath(ownerId: string): string {
+    const digest = createHash('sha256').update(ownerId).digest('hex').slice(0, 24);
+    return path.join(this.baseDir, `${digest}.json`);
+  }
+
+  async get(ownerId: string): Promise<FounderProfile | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(ownerId), 'utf-8')) as FounderProfile;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  // 先写临时文件再重命名，进程中断时不会留下半截文件
+  async save(ownerId: string, profile: FounderProfile): Promise<FounderProfile> {
+    const file = this.filePath(ownerId);
+    await fs.mkdir(this.baseDir, { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(profile, null, 2), 'utf-8');
+    await fs.rename(tmp, file);
+    return profile;
+  }
+
+  async delete(ownerId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(ownerId));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+}
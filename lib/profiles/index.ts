@@ -0,0 +1,46 @@
+// Founder Profiles
+// 默认使用文件存储（PROFILES_DIR，默认 data/profiles）；
+// 配置 PROFILE_STORE=memory 时使用内存存储；未显式配置且目录不可写（如 Vercel）时也退回内存存储
+
+import * as path from 'path';
+import { isWritableDir } from '../storage';
+import type { ProfileStore } from '../types';
+import { FileProfileStore } from './file-store';
+import { MemoryProfileStore } from './memory-store';
+
+export { FileProfileStore } from './file-store';
+export { MemoryProfileStore } from './memory-store';
+export { inferProfile, profileBoosts } from './personalization';
+export {
+  PROFILE_FIELDS,
+  STAGE_LABELS,
+  FUNDRAISING_LABELS,
+  describeProfile,
+  isProfileEmpty,
+  mergeProfile,
+} from './utils';
+
+function createStore(): ProfileStore {
+  if (process.env.PROFILE_STORE === 'memory') {
+    return new MemoryProfileStore();
+  }
+  const dir = process.env.PROFILES_DIR || path.join(process.cwd(), 'data', 'profiles');
+  // 显式配置 file 时不退回，目录不可写的错误照常暴露
+  if (process.env.PROFILE_STORE !== 'file' && !isWritableDir(dir)) {
+    console.warn(`[Profiles] ${dir} is not writable, falling back to in-memory store`);
+    return new MemoryProfileStore();
+  }
+  return new FileProfileStore(dir);
+}
+
+let store: ProfileStore | null = null;
+
+export function getProfileStore(): ProfileStore {
+  store ??= createStore();
+  return store;
+}
+
+// 替换存储（如接入数据库实现）；不传参数时下次按环境变量重新创建
+export function resetProfileStore(next?: ProfileStore) {
+  store = next ?? null;
+}
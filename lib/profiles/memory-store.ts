@@ -0,0 +1,23 @@
+// 内存档案存储
+// 用于开发、测试或文件系统只读的部署环境；进程重启后档案丢失
+
+import type { FounderProfile, ProfileStore } from '../types';
+
+export class MemoryProfileStore implements ProfileStore {
+  private profiles = new Map<string, FounderProfile>();
+
+  // 返回副本，调用方修改不会影响存储
+  async get(ownerId: string): Promise<FounderProfile | null> {
+    const profile = this.profiles.get(ownerId);
+    return profile ? structuredClone(profile) : null;
+  }
+
+  async save(ownerId: string, profile: FounderProfile): Promise<FounderProfile> {
+    this.profiles.set(ownerId, structuredClone(profile));
+    return structuredClone(profile);
+  }
+
+  async delete(ownerId: string): Promise<boolean> {
+    return this.profiles.delete(ownerId);
+  }
+}
@@ -0,0 +1,119 @@
+// 档案推断与检索个性化
+// 从用户消息中识别阶段、行业、团队、融资与所在地，并把档案转换为检索加权
+
+import { inferFilters } from '../knowledge/query-rewrite';
+import type { Category, SearchBoosts } from '../knowledge/types';
+import type { FounderProfileFields, FounderProfileUpdate, FundraisingStatus } from '../types';
+import { PROFILE_LIMITS, isProfileStage } from './utils';
+
+// ==================== 推断 ====================
+
+/** 行业、团队等信息只在用户描述自己时推断，避免「AI 会取代创业吗」这类提问被误记 */
+const SELF_REFERENCE = /我们|我在|我是|我的|我做|我正在|本人|\b(we|we're|we are|our|i'm|i am|my)\b/i;
+
+const INDUSTRY_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: 'AI', pattern: /\bai\b|人工智能|大模型|\bllm\b/i },
+  { label: 'B2B SaaS', pattern: /\bb2b\b|\bsaas\b|企业服务/i },
+  { label: '开发者工具', pattern: /developer tools?|\bdev ?tools\b|开发者工具/i },
+  { label: '金融科技', pattern: /fintech|金融科技|支付/i },
+  { label: '生物科技', pattern: /biotech|生物科技|生物医药/i },
+  { label: '医疗健康', pattern: /health ?tech|healthcare|医疗|健康/i },
+  { label: '教育', pattern: /edtech|教育/i },
+  { label: '电商', pattern: /e-?commerce|电商/i },
+  { label: '硬件', pattern: /hardware|robotics|硬件|机器人/i },
+  { label: '加密 / Web3', pattern: /crypto|web3|blockchain|区块链/i },
+  { label: '游戏', pattern: /\bgam(e|es|ing)\b|游戏/i },
+  { label: '消费', pattern: /\bb2c\b|\bconsumer\b|消费品/i },
+];
+
+const FUNDRAISING_PATTERNS: { status: FundraisingStatus; pattern: RegExp }[] = [
+  { status: 'raised-series-a', pattern: /(拿到|完成|融了|获得)了?\s*[a-d]\s*轮|raised (a |our )?series [a-d]/i },
+  { status: 'raised-seed', pattern: /(拿到|完成|融了|获得)了?\s*(天使|种子)轮|raised (a |an |our )?(pre-?seed|seed|angel)/i },
+  { status: 'raising', pattern: /(正在|在|准备|打算)(融资|找投资)|\b(we're|we are|i'm|i am) (currently )?raising\b/i },
+  { status: 'not-raising', pattern: /(还)?没(有)?(融资|拿过?投资)|自筹资金|\bbootstrap(ped|ping)\b/i },
+];
+
+const CITIES = [
+  '北京', '上海', '深圳', '广州', '杭州', '成都', '南京', '武汉', '西安', '苏州',
+  '香港', '台北', '新加坡', '硅谷', '旧金山', '纽约', '伦敦', '东京',
+];
+const CITY_PATTERN = new RegExp(`(?:在|位于|总部在|base 在|base在)\\s*(${CITIES.join('|')})`);
+const BASED_IN_PATTERN = /\bbased in ((?:[A-Z][a-z]+)(?: [A-Z][a-z]+)?)/;
+
+const CHINESE_NUMBERS: Record<string, number> = {
+  一: 1, 两: 2, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+};
+const TEAM_SIZE_PATTERNS = [
+  /(?:团队|我们)(?:现在)?(?:有|共|一共|总共)?\s*(\d+|[一两二三四五六七八九十])\s*(?:个人|人|名成员)/,
+  /(\d+|[一两二三四五六七八九十])\s*(?:个)?人的?团队/,
+  /\bteam of (\d+)\b/i,
+  /\bwe(?:'re| are) (\d+) people\b/i,
+];
+const SOLO_PATTERN = /一个人(在)?(做|创业)|独自创业|独立开发者?|\bsolo founder\b/i;
+
+function parseTeamSize(message: string): number | undefined {
+  if (SOLO_PATTERN.test(message)) return 1;
+  for (const pattern of TEAM_SIZE_PATTERNS) {
+    const value = message.match(pattern)?.[1];
+    if (!value) continue;
+    const size = CHINESE_NUMBERS[value] ?? Number(value);
+    if (size >= 1 && size <= PROFILE_LIMITS.maxTeamSize) return size;
+  }
+  return undefined;
+}
+
+/** 从单条用户消息推断档案字段；识别不出的字段不出现在结果中 */
+export function inferProfile(message: string): FounderProfileUpdate {
+  const update: FounderProfileUpdate = {};
+
+  const stage = inferFilters(message).stages?.find(isProfileStage);
+  if (stage) update.stage = stage;
+
+  if (!SELF_REFERENCE.test(message)) return update;
+
+  const industry = INDUSTRY_PATTERNS.find(({ pattern }) => pattern.test(message));
+  if (industry) update.industry = industry.label;
+
+  const teamSize = parseTeamSize(message);
+  if (teamSize !== undefined) update.teamSize = teamSize;
+
+  const fundraising = FUNDRAISING_PATTERNS.find(({ pattern }) => pattern.test(message));
+  if (fundraising) update.fundraising = fundraising.status;
+
+  const location = message.match(CITY_PATTERN)?.[1] || message.match(BASED_IN_PATTERN)?.[1];
+  if (location) update.location = location;
+
+  return update;
+}
+
+// ==================== 检索加权 ====================
+
+const INDUSTRY_CATEGORIES: { category: Category; pattern: RegExp }[] = [
+  { category: 'ai', pattern: /\bai\b|人工智能|大模型|\bllm\b/i },
+  { category: 'b2b', pattern: /\bb2b\b|\bsaas\b|企业服务|开发者工具|developer tools?/i },
+  { category: 'biotech', pattern: /biotech|生物/i },
+  { category: 'crypto', pattern: /crypto|web3|blockchain|区块链/i },
+  { category: 'deep-tech', pattern: /hardware|robotics|deep ?tech|硬件|机器人|深科技/i },
+];
+
+/** 档案对应的检索加权：阶段匹配的资源优先，行业、融资与团队情况决定优先的分类 */
+export function profileBoosts(profile: FounderProfileFields | null | undefined): SearchBoosts | undefined {
+  if (!profile) return undefined;
+
+  const categories = new Set<Category>();
+  if (profile.industry) {
+    INDUSTRY_CATEGORIES
+      .filter(({ pattern }) => pattern.test(profile.industry!))
+      .forEach(({ category }) => categories.add(category));
+  }
+  if (profile.fundraising === 'raising') categories.add('fundraising');
+  if (profile.teamSize === 1) categories.add('co-founders');
+  if (profile.teamSize !== undefined && profile.teamSize >= 10) categories.add('hiring');
+  if (profile.stage === 'pre-idea') categories.add('getting-started');
+
+  const boosts: SearchBoosts = {};
+  if (profile.stage) boosts.stages = [profile.stage];
+  if (categories.size > 0) boosts.categories = Array.from(categories);
+
+  return boosts.stages || boosts.categories ? boosts : undefined;
+}
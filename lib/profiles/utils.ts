@@ -0,0 +1,104 @@
+// 创业者档案共用的常量与合并规则
+// 不依赖 Node 模块，客户端表单可引用其中的选项与限制
+
+import type {
+  FounderProfile,
+  FounderProfileFields,
+  FounderProfileUpdate,
+  FundraisingStatus,
+  ProfileField,
+  ProfileStage,
+} from '../types';
+
+export const PROFILE_FIELDS: ProfileField[] = ['stage', 'industry', 'teamSize', 'fundraising', 'location'];
+
+export const STAGE_LABELS: Record<ProfileStage, string> = {
+  'pre-idea': '还没有想法',
+  'idea': '想法阶段',
+  'building': '开发中',
+  'launched': '已上线',
+  'scaling': '规模化',
+};
+
+export const FUNDRAISING_LABELS: Record<FundraisingStatus, string> = {
+  'not-raising': '未融资',
+  'raising': '正在融资',
+  'raised-seed': '已获天使 / 种子轮',
+  'raised-series-a': '已获 A 轮及以后',
+};
+
+export const PROFILE_LIMITS = {
+  /** 行业、所在地最大字符数 */
+  maxTextLength: 50,
+  maxTeamSize: 100000,
+};
+
+export function isProfileStage(value: unknown): value is ProfileStage {
+  return typeof value === 'string' && value in STAGE_LABELS;
+}
+
+export function isFundraisingStatus(value: unknown): value is FundraisingStatus {
+  return typeof value === 'string' && value in FUNDRAISING_LABELS;
+}
+
+export function isProfileEmpty(profile: FounderProfileFields | null | undefined): boolean {
+  return !profile || PROFILE_FIELDS.every(field => profile[field] === undefined);
+}
+
+/**
+ * 合并档案更新，返回新档案；没有任何变化时返回 null
+ * 用户填写的值总会生效，并取消该字段的「推断」标记；
+ * 推断的值只填充空字段或覆盖之前推断的值
+ */
+export function mergeProfile(
+  current: FounderProfile | null,
+  update: FounderProfileUpdate,
+  source: 'user' | 'inferred'
+): FounderProfile | null {
+  const next: FounderProfile = current
+    ? { ...current, inferred: [...current.inferred] }
+    : { inferred: [], updatedAt: '' };
+  let changed = false;
+
+  for (const field of PROFILE_FIELDS) {
+    if (!(field in update)) continue;
+    const value = update[field];
+    const isInferred = next.inferred.includes(field);
+
+    if (source === 'inferred') {
+      if (value == null || (next[field] !== undefined && !isInferred)) continue;
+      if (next[field] === value) continue;
+      (next as FounderProfileFields)[field] = value as never;
+      if (!isInferred) next.inferred.push(field);
+      changed = true;
+      continue;
+    }
+
+    if (next[field] === (value ?? undefined) && !isInferred) continue;
+    if (value == null) {
+      delete next[field];
+    } else {
+      (next as FounderProfileFields)[field] = value as never;
+    }
+    next.inferred = next.inferred.filter(f => f !== field);
+    changed = true;
+  }
+
+  if (!changed) return null;
+  next.updatedAt = new Date().toISOString();
+  return next;
+}
+
+/** 档案的可读描述，每个字段一行；推断的字段带标注 */
+export function describeProfile(profile: FounderProfile): string[] {
+  const lines: string[] = [];
+  const mark = (field: ProfileField) => (profile.inferred.includes(field) ? '（根据对话推断）' : '');
+
+  if (profile.stage) lines.push(`阶段：${STAGE_LABELS[profile.stage]}${mark('stage')}`);
+  if (profile.industry) lines.push(`行业：${profile.industry}${mark('industry')}`);
+  if (profile.teamSize !== undefined) lines.push(`团队：${profile.teamSize} 人${mark('teamSize')}`);
+  if (profile.fundraising) lines.push(`融资：${FUNDRAISING_LABELS[profile.fundraising]}${mark('fundraising')}`);
+  if (profile.location) lines.push(`所在地：${profile.location}${mark('location')}`);
+
+  return lines;
+}
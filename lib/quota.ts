@@ -0,0 +1,200 @@
+// API Key 每日配额
+// 内部工具通过 Authorization: Bearer <key> 或 X-API-Key 头携带密钥，
+// 每个密钥单独计算每日请求数和 token 数，与按 IP 的限流同时生效
+// 注意：与 usage 一样为内存计数，多实例部署时各实例分别统计
+
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+  ErrorCode,
+  errorResponse,
+  type ApiKeyConfig,
+  type QuotaCheckResult,
+  type QuotaStatus,
+  type QuotaUsage,
+} from './types';
+
+interface DailyCounter {
+  day: string;
+  requests: number;
+  tokens: number;
+}
+
+const counters = new Map<string, DailyCounter>();
+
+let apiKeys: ApiKeyConfig[] | null = null;
+
+function isPositiveLimit(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && value > 0);
+}
+
+/**
+ * 从环境变量读取 API Key 配置
+ * API_KEYS='[{"name":"slack-bot","key":"...","dailyRequests":500,"dailyTokens":200000}]'
+ */
+export function loadApiKeys(env: NodeJS.ProcessEnv = process.env): ApiKeyConfig[] {
+  const raw = env.API_KEYS?.trim();
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error('[Quota] API_KEYS is not valid JSON, no API keys loaded');
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    console.error('[Quota] API_KEYS must be a JSON array, no API keys loaded');
+    return [];
+  }
+
+  return parsed.filter((entry): entry is ApiKeyConfig => {
+    const valid = typeof entry?.name === 'string' && typeof entry?.key === 'string' && entry.key.length > 0
+      && isPositiveLimit(entry.dailyRequests) && isPositiveLimit(entry.dailyTokens);
+    if (!valid) console.warn(`[Quota] Skipping invalid API key entry ${JSON.stringify(entry?.name)}`);
+    return valid;
+  });
+}
+
+export function getApiKeys(): ApiKeyConfig[] {
+  apiKeys ??= loadApiKeys();
+  return apiKeys;
+}
+
+// 替换密钥配置并清空计数（用于测试或热更新）
+export function resetApiKeys(keys?: ApiKeyConfig[]) {
+  apiKeys = keys ?? null;
+  counters.clear();
+}
+
+/** 请求中携带的密钥，未携带时返回 null */
+export function extractApiKey(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+  return headers.get('x-api-key')?.trim() || null;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// 比较摘要而非原文，避免通过响应时间猜测密钥
+export function findApiKey(key: string): ApiKeyConfig | undefined {
+  const presented = digest(key);
+  return getApiKeys().find(k => timingSafeEqual(digest(k.key), presented));
+}
+
+// ==================== 计数 ====================
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+function getCounter(apiKey: ApiKeyConfig, now: number): DailyCounter {
+  const day = utcDay(now);
+  let counter = counters.get(apiKey.name);
+  // 跨天后重新计数
+  if (!counter || counter.day !== day) {
+    counter = { day, requests: 0, tokens: 0 };
+    counters.set(apiKey.name, counter);
+  }
+  return counter;
+}
+
+function quotaUsage(limit: number | undefined, used: number): QuotaUsage {
+  return {
+    limit: limit ?? null,
+    used,
+    remaining: limit === undefined ? null : Math.max(0, limit - used),
+  };
+}
+
+export function getQuotaStatus(apiKey: ApiKeyConfig, now = Date.now()): QuotaStatus {
+  const counter = getCounter(apiKey, now);
+  return {
+    keyName: apiKey.name,
+    requests: quotaUsage(apiKey.dailyRequests, counter.requests),
+    tokens: quotaUsage(apiKey.dailyTokens, counter.tokens),
+    resetsAt: new Date(nextUtcMidnight(now)).toISOString(),
+  };
+}
+
+/**
+ * 检查并占用一次请求配额
+ * token 用量在回答完成后才知道，只要当日尚未用尽即放行，
+ * 因此单个请求可能使当日 token 数略微超出配额
+ */
+export function checkQuota(apiKey: ApiKeyConfig, now = Date.now()): QuotaCheckResult {
+  const counter = getCounter(apiKey, now);
+  const retryAfter = Math.ceil((nextUtcMidnight(now) - now) / 1000);
+
+  if (apiKey.dailyRequests !== undefined && counter.requests >= apiKey.dailyRequests) {
+    return { allowed: false, exceeded: 'requests', retryAfter, status: getQuotaStatus(apiKey, now) };
+  }
+  if (apiKey.dailyTokens !== undefined && counter.tokens >= apiKey.dailyTokens) {
+    return { allowed: false, exceeded: 'tokens', retryAfter, status: getQuotaStatus(apiKey, now) };
+  }
+
+  counter.requests++;
+  return { allowed: true, status: getQuotaStatus(apiKey, now) };
+}
+
+/** 回答完成后计入 token 用量 */
+export function recordQuotaTokens(apiKey: ApiKeyConfig, tokens: number, now = Date.now()) {
+  getCounter(apiKey, now).tokens += tokens;
+}
+
+// ==================== 响应 ====================
+
+export function quotaHeaders(status: QuotaStatus): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-Quota-Reset': status.resetsAt,
+  };
+  if (status.requests.remaining !== null) {
+    headers['X-Quota-Requests-Remaining'] = String(status.requests.remaining);
+  }
+  if (status.tokens.remaining !== null) {
+    headers['X-Quota-Tokens-Remaining'] = String(status.tokens.remaining);
+  }
+  return headers;
+}
+
+// 为响应附加配额头
+export function applyQuotaHeaders<T extends Response>(response: T, status: QuotaStatus): T {
+  for (const [name, value] of Object.entries(quotaHeaders(status))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// 配额用尽时的 429 响应
+export function quotaExceededResponse(result: QuotaCheckResult): Response {
+  return new Response(
+    JSON.stringify({
+      ...errorResponse(`Daily ${result.exceeded} quota exceeded`, ErrorCode.QUOTA_EXCEEDED),
+      retryAfter: result.retryAfter,
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(result.retryAfter),
+        ...quotaHeaders(result.status),
+      },
+    }
+  );
+}
+
+// 密钥无效时的 401 响应
+export function invalidApiKeyResponse(): Response {
+  return new Response(
+    JSON.stringify(errorResponse('Invalid API key', ErrorCode.UNAUTHORIZED)),
+    { status: 401, headers: { 'Content-Type': 'application/json' } }
+  );
+}
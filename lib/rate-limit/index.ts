@@ -0,0 +1,113 @@
+// Rate Limiting
+// 记录存储可替换：默认内存存储（单实例），配置 RATE_LIMIT_STORE=redis 后
+// 使用 Redis 共享计数，适用于多实例部署
+
+import {
+  ErrorCode,
+  errorResponse,
+  type RateLimitAlgorithm,
+  type RateLimitResult,
+  type RateLimitRule,
+  type RateLimitStore,
+} from '../types';
+import { MemoryRateLimitStore } from './memory-store';
+import { RedisRateLimitStore } from './redis-store';
+import { RespClient } from './resp-client';
+
+export { MemoryRateLimitStore } from './memory-store';
+export { RedisRateLimitStore } from './redis-store';
+export { RespClient, RespError, type RedisCommandClient, type RespValue } from './resp-client';
+
+export type RateLimitScope = 'chat' | 'search';
+
+// 各接口独立计数：浏览分类产生的搜索请求不占用对话额度
+const RATE_LIMITS: Record<RateLimitScope, RateLimitRule> = {
+  chat: {
+    windowMs: 60 * 1000, // 1 分钟
+    max: 20, // 每分钟最多 20 次请求
+  },
+  search: {
+    windowMs: 60 * 1000,
+    max: 60,
+  },
+};
+
+const ALGORITHMS: RateLimitAlgorithm[] = ['fixed-window', 'sliding-window', 'token-bucket'];
+
+function resolveAlgorithm(): RateLimitAlgorithm {
+  const configured = process.env.RATE_LIMIT_ALGORITHM as RateLimitAlgorithm | undefined;
+  if (configured && !ALGORITHMS.includes(configured)) {
+    console.warn(`[RateLimit] Unknown RATE_LIMIT_ALGORITHM "${configured}", using fixed-window`);
+    return 'fixed-window';
+  }
+  return configured || 'fixed-window';
+}
+
+function createStore(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'redis') {
+    const url = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
+    return new RedisRateLimitStore(new RespClient(url));
+  }
+  return new MemoryRateLimitStore();
+}
+
+let store: RateLimitStore | null = null;
+let algorithm: RateLimitAlgorithm | null = null;
+
+// 替换存储或算法（如接入其他 Redis 客户端）
+export function configureRateLimit(options: { store?: RateLimitStore; algorithm?: RateLimitAlgorithm }) {
+  if (options.store) store = options.store;
+  if (options.algorithm) algorithm = options.algorithm;
+}
+
+export { type RateLimitResult };
+
+export async function checkRateLimit(ip: string, scope: RateLimitScope = 'chat'): Promise<RateLimitResult> {
+  store ??= createStore();
+  algorithm ??= resolveAlgorithm();
+
+  const rule = RATE_LIMITS[scope];
+  try {
+    return await store.consume(`${scope}:${ip}`, rule, algorithm, Date.now());
+  } catch (error) {
+    // 存储不可用时放行，避免限流组件故障导致整个服务不可用
+    console.error('[RateLimit] Store error, allowing request:', error);
+    return { allowed: true, remaining: rule.max, limit: rule.max };
+  }
+}
+
+// 标准限流响应头
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Remaining': String(result.remaining ?? 0),
+  };
+  if (result.limit !== undefined) {
+    headers['X-RateLimit-Limit'] = String(result.limit);
+  }
+  if (!result.allowed && result.retryAfter !== undefined) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+  return headers;
+}
+
+// 为响应附加限流头
+export function applyRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// 超出限制时的 429 响应
+export function rateLimitExceededResponse(result: RateLimitResult): Response {
+  return new Response(
+    JSON.stringify({
+      ...errorResponse('Too many requests', ErrorCode.RATE_LIMITED),
+      retryAfter: result.retryAfter,
+    }),
+    {
+      status: 429,
+      headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(result) },
+    }
+  );
+}
@@ -0,0 +1,129 @@
+// 内存限流存储
+// 单实例部署或开发环境使用；多实例部署时各实例分别计数
+
+import type {
+  RateLimitAlgorithm,
+  RateLimitRecord,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+} from '../types';
+
+interface TokenBucketRecord {
+  tokens: number;
+  updatedAt: number;
+}
+
+// 定期清理过期记录，避免内存泄漏
+const CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 分钟
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitRecord>();
+  private logs = new Map<string, number[]>();
+  private buckets = new Map<string, TokenBucketRecord & { expiresAt: number }>();
+  private lastCleanup = Date.now();
+
+  async consume(
+    key: string,
+    rule: RateLimitRule,
+    algorithm: RateLimitAlgorithm,
+    now: number
+  ): Promise<RateLimitResult> {
+    this.cleanupExpiredRecords(now);
+
+    switch (algorithm) {
+      case 'sliding-window':
+        return this.slidingWindow(key, rule, now);
+      case 'token-bucket':
+        return this.tokenBucket(key, rule, now);
+      default:
+        return this.fixedWindow(key, rule, now);
+    }
+  }
+
+  private fixedWindow(key: string, { windowMs, max }: RateLimitRule, now: number): RateLimitResult {
+    const record = this.windows.get(key);
+
+    if (!record || now > record.resetTime) {
+      this.windows.set(key, { count: 1, resetTime: now + windowMs });
+      return { allowed: true, remaining: max - 1, limit: max };
+    }
+
+    if (record.count >= max) {
+      return {
+        allowed: false,
+        retryAfter: Math.ceil((record.resetTime - now) / 1000),
+        remaining: 0,
+        limit: max,
+      };
+    }
+
+    record.count++;
+    return { allowed: true, remaining: max - record.count, limit: max };
+  }
+
+  private slidingWindow(key: string, { windowMs, max }: RateLimitRule, now: number): RateLimitResult {
+    const log = (this.logs.get(key) || []).filter(t => t > now - windowMs);
+
+    if (log.length >= max) {
+      this.logs.set(key, log);
+      return {
+        allowed: false,
+        // 最早的一次请求滑出窗口后即可重试
+        retryAfter: Math.max(1, Math.ceil((log[0] + windowMs - now) / 1000)),
+        remaining: 0,
+        limit: max,
+      };
+    }
+
+    log.push(now);
+    this.logs.set(key, log);
+    return { allowed: true, remaining: max - log.length, limit: max };
+  }
+
+  private tokenBucket(key: string, { windowMs, max }: RateLimitRule, now: number): RateLimitResult {
+    const refillPerMs = max / windowMs;
+    const record = this.buckets.get(key);
+    const tokens = record
+      ? Math.min(max, record.tokens + (now - record.updatedAt) * refillPerMs)
+      : max;
+
+    if (tokens < 1) {
+      this.buckets.set(key, { tokens, updatedAt: now, expiresAt: now + windowMs });
+      return {
+        allowed: false,
+        retryAfter: Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000)),
+        remaining: 0,
+        limit: max,
+      };
+    }
+
+    this.buckets.set(key, { tokens: tokens - 1, updatedAt: now, expiresAt: now + windowMs });
+    return { allowed: true, remaining: Math.floor(tokens - 1), limit: max };
+  }
+
+  private cleanupExpiredRecords(now: number) {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL) {
+      return;
+    }
+
+    this.lastCleanup = now;
+    for (const [key, record] of Array.from(this.windows.entries())) {
+      if (now > record.resetTime) {
+        this.windows.delete(key);
+      }
+    }
+    // 滑动窗口日志在最后一次请求一个清理周期后删除，足以覆盖所有窗口
+    for (const [key, log] of Array.from(this.logs.entries())) {
+      if (log.length === 0 || now - log[log.length - 1] > CLEANUP_INTERVAL) {
+        this.logs.delete(key);
+      }
+    }
+    // 令牌桶在一个窗口后必然已补满，可直接删除
+    for (const [key, bucket] of Array.from(this.buckets.entries())) {
+      if (now > bucket.expiresAt) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// Redis 限流存储
+// 每种算法对应一段 Lua 脚本，在 Redis 中原子执行，多实例共享计数
+
+import type {
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+} from '../types';
+import type { RedisCommandClient, RespValue } from './resp-client';
+
+// 脚本统一返回 { allowed(0/1), remaining, retryAfterMs }
+
+const FIXED_WINDOW_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+local ttl = redis.call('PTTL', KEYS[1])
+local max = tonumber(ARGV[2])
+if count > max then
+  return {0, 0, ttl}
+end
+return {1, max - count, 0}
+`;
+
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local max = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count >= max then
+  local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+  return {0, 0, tonumber(oldest[2]) + window - now}
+end
+redis.call('ZADD', KEYS[1], now, ARGV[4])
+redis.call('PEXPIRE', KEYS[1], window)
+return {1, max - count - 1, 0}
+`;
+
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local max = tonumber(ARGV[3])
+local rate = max / window
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1])
+local updatedAt = tonumber(state[2])
+if tokens == nil then
+  tokens = max
+else
+  tokens = math.min(max, tokens + (now - updatedAt) * rate)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], window)
+if allowed == 1 then
+  return {1, math.floor(tokens), 0}
+end
+return {0, 0, math.ceil((1 - tokens) / rate)}
+`;
+
+const KEY_PREFIX = 'ratelimit:';
+
+let sequence = 0;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private client: RedisCommandClient) {}
+
+  async consume(
+    key: string,
+    rule: RateLimitRule,
+    algorithm: RateLimitAlgorithm,
+    now: number
+  ): Promise<RateLimitResult> {
+    const redisKey = `${KEY_PREFIX}${algorithm}:${key}`;
+    let reply: RespValue;
+
+    switch (algorithm) {
+      case 'sliding-window':
+        // 同一毫秒内的多次请求需要不同的成员
+        reply = await this.client.send([
+          'EVAL', SLIDING_WINDOW_SCRIPT, 1, redisKey,
+          now, rule.windowMs, rule.max, `${now}-${process.pid}-${++sequence}`,
+        ]);
+        break;
+      case 'token-bucket':
+        reply = await this.client.send([
+          'EVAL', TOKEN_BUCKET_SCRIPT, 1, redisKey,
+          now, rule.windowMs, rule.max,
+        ]);
+        break;
+      default:
+        reply = await this.client.send([
+          'EVAL', FIXED_WINDOW_SCRIPT, 1, redisKey,
+          rule.windowMs, rule.max,
+        ]);
+    }
+
+    const [allowed, remaining, retryAfterMs] = (reply as RespValue[]).map(Number);
+    return allowed === 1
+      ? { allowed: true, remaining, limit: rule.max }
+      : {
+          allowed: false,
+          retryAfter: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+          remaining: 0,
+          limit: rule.max,
+        };
+  }
+}
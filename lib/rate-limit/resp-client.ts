@@ -0,0 +1,212 @@
+// 精简的 Redis 协议（RESP2）客户端
+// 只实现限流所需的请求/响应模型，兼容 Redis、Valkey、KeyDB 等服务端
+
+import * as net from 'net';
+
+export type RespValue = string | number | null | RespValue[];
+
+/** 可发送 Redis 命令的客户端（可替换为其他实现或测试替身） */
+export interface RedisCommandClient {
+  send(command: (string | number)[]): Promise<RespValue>;
+}
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+/** 从缓冲区解析一个完整回复；数据不完整时返回 undefined */
+function parseReply(buffer: Buffer, offset: number): { value: RespValue | RespError; next: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new RespError(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString('utf-8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, next };
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return undefined;
+        // 数组内的错误（如 EXEC 中失败的命令）按字符串返回
+        items.push(item.value instanceof RespError ? item.value.message : item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new RespError(`Unexpected RESP type: ${type}`);
+  }
+}
+
+function encodeCommand(command: (string | number)[]): string {
+  let encoded = `*${command.length}\r\n`;
+  for (const arg of command) {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return encoded;
+}
+
+export interface RespClientOptions {
+  /** 单条命令超时（毫秒） */
+  commandTimeoutMs?: number;
+}
+
+/**
+ * 基于 TCP 的 RESP 客户端，地址格式 redis://[:password@]host[:port][/db]
+ * 首次发送命令时建立连接，断开后下次命令自动重连
+ */
+export class RespClient implements RedisCommandClient {
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private readonly host: string;
+  private readonly port: number;
+  private readonly password?: string;
+  private readonly db?: number;
+  private readonly commandTimeoutMs: number;
+
+  constructor(url: string, options: RespClientOptions = {}) {
+    const parsed = new URL(url);
+    this.host = parsed.hostname || '127.0.0.1';
+    this.port = Number(parsed.port) || 6379;
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : undefined;
+    this.db = parsed.pathname.length > 1 ? Number(parsed.pathname.slice(1)) : undefined;
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 1000;
+  }
+
+  async send(command: (string | number)[]): Promise<RespValue> {
+    await this.connect();
+    return this.write(command);
+  }
+
+  close(): void {
+    this.socket?.destroy();
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      this.socket = socket;
+
+      // 服务端不可达时不要无限等待连接
+      const connectTimer = setTimeout(() => {
+        socket.destroy(new RespError(`Connect timed out after ${this.commandTimeoutMs}ms`));
+      }, this.commandTimeoutMs);
+
+      socket.once('connect', () => {
+        clearTimeout(connectTimer);
+        const setup: Promise<RespValue>[] = [];
+        if (this.password) setup.push(this.write(['AUTH', this.password]));
+        if (this.db !== undefined) setup.push(this.write(['SELECT', this.db]));
+        Promise.all(setup).then(() => resolve(), error => {
+          // 密码或库号错误时丢弃这条连接，下次命令重新建立，而不是一直沿用失败的结果
+          console.error('[RateLimit] Redis connection setup failed:', error);
+          if (this.socket === socket) this.reset(error);
+          socket.destroy();
+          reject(error);
+        });
+      });
+      socket.on('data', chunk => this.onData(socket, chunk));
+      socket.on('error', error => {
+        clearTimeout(connectTimer);
+        reject(error);
+        // 旧连接的事件不影响已重连的新连接
+        if (this.socket === socket) this.reset(error);
+      });
+      socket.on('close', () => {
+        clearTimeout(connectTimer);
+        if (this.socket === socket) this.reset(new RespError('Connection closed'));
+      });
+    });
+
+    return this.ready;
+  }
+
+  private write(command: (string | number)[]): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const socket = this.socket;
+      if (!socket) {
+        reject(new RespError('Not connected'));
+        return;
+      }
+
+      // 超时后无法再将回复与请求对应，断开连接由下次命令重连
+      const timer = setTimeout(() => {
+        socket.destroy(new RespError(`Command timed out after ${this.commandTimeoutMs}ms`));
+      }, this.commandTimeoutMs);
+
+      this.pending.push({
+        resolve: value => { clearTimeout(timer); resolve(value); },
+        reject: error => { clearTimeout(timer); reject(error); },
+      });
+      socket.write(encodeCommand(command));
+    });
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer) {
+    if (this.socket !== socket) return;
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let reply: ReturnType<typeof parseReply>;
+      try {
+        reply = parseReply(this.buffer, offset);
+      } catch (error) {
+        // 无法解析的回复之后的数据都对不上请求；断开连接，等待中的命令随 'error' 事件失败
+        socket.destroy(error instanceof Error ? error : new RespError(String(error)));
+        return;
+      }
+      if (!reply) break;
+      offset = reply.next;
+
+      const pending = this.pending.shift();
+      if (!pending) continue;
+      if (reply.value instanceof RespError) {
+        pending.reject(reply.value);
+      } else {
+        pending.resolve(reply.value);
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private reset(error: Error) {
+    const pending = this.pending;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+    this.socket = null;
+    this.ready = null;
+    pending.forEach(p => p.reject(error));
+  }
+}
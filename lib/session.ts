@@ -0,0 +1,50 @@
+// 会话所有者识别
+// 浏览器通过 httpOnly Cookie 中的匿名会话 id 区分；携带 API Key 的请求归属于该密钥
+
+import { randomUUID } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { extractApiKey, findApiKey } from './quota';
+import { UnauthorizedError } from './types';
+
+export const SESSION_COOKIE = 'yc_session';
+
+// 一年
+const SESSION_MAX_AGE = 365 * 24 * 60 * 60;
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+export interface RequestOwner {
+  ownerId: string;
+  /** 新分配的会话 id，需要写入响应 Cookie */
+  newSessionId?: string;
+}
+
+/** 识别请求所有者；密钥无效时抛出 UnauthorizedError */
+export function resolveOwner(req: NextRequest): RequestOwner {
+  const presentedKey = extractApiKey(req.headers);
+  if (presentedKey) {
+    const apiKey = findApiKey(presentedKey);
+    if (!apiKey) throw new UnauthorizedError('Invalid API key');
+    return { ownerId: `key:${apiKey.name}` };
+  }
+
+  const sessionId = req.cookies.get(SESSION_COOKIE)?.value;
+  if (sessionId && SESSION_ID_PATTERN.test(sessionId)) {
+    return { ownerId: `session:${sessionId}` };
+  }
+
+  const newSessionId = randomUUID();
+  return { ownerId: `session:${newSessionId}`, newSessionId };
+}
+
+// 为响应写入新分配的会话 Cookie
+export function applySessionCookie<T extends Response>(response: T, owner: RequestOwner): T {
+  if (owner.newSessionId) {
+    const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+    response.headers.append(
+      'Set-Cookie',
+      `${SESSION_COOKIE}=${owner.newSessionId}; Path=/; Max-Age=${SESSION_MAX_AGE}; HttpOnly; SameSite=Lax${secure}`
+    );
+  }
+  return response;
+}
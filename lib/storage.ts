@@ -0,0 +1,15 @@
+// 文件存储目录检测
+// 会话与档案默认写在 data/ 下；Vercel 等部署的文件系统只读，需要退回内存存储
+
+import * as fs from 'fs';
+
+/** 目录已存在或可以创建，并且可写 */
+export function isWritableDir(dir: string): boolean {
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.accessSync(dir, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -2,6 +2,8 @@
  * YC Advisor 统一类型定义
  */
 
+import type { FounderStage } from './knowledge/types';
+
 // ==================== API 类型 ====================
 
 export interface ChatMessage {
@@ -12,20 +14,298 @@ export interface ChatMessage {
 export interface ChatRequest {
   message: string;
   history?: ChatMessage[];
+  stream?: boolean;
+  /** 限定检索范围的分类 id */
+  category?: string;
+  /** 回答使用的模型 id（须在服务端允许列表中） */
+  model?: string;
+  /** 服务端会话 id；提供时历史从会话中读取，并保存本轮问答 */
+  conversationId?: string;
+  /** 重新生成：替换会话中最后一轮问答而不是追加 */
+  regenerate?: boolean;
 }
 
+/** 非流式回答（ApiResponse 信封中的 data） */
 export interface ChatResponse {
-  text?: string;
-  error?: string;
-  details?: string;
+  text: string;
+  model?: string;
+  usage?: RequestUsage;
+  truncated?: TruncatedRef[];
+  resources?: ResourceRef[];
+  chunks?: ChunkRef[];
+  citations?: CitationReport;
+  conversationId?: string;
+}
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  /** 每百万 token 的美元价格 */
+  pricing: { inputPerMillion: number; outputPerMillion: number };
+}
+
+export interface ModelsResponse {
+  models: ModelOption[];
+  defaultModel: string;
+}
+
+// ==================== SSE 事件类型 ====================
+
+export interface ResourceRef {
+  code: string;
+  title: string;
+  author: string;
+  type?: string;
+}
+
+export interface ChunkRef {
+  /** 片段编号，如 "8z#3" */
+  id: string;
+  code: string;
+  startLine: number;
+  endLine: number;
+  heading?: string;
+}
+
+export interface TruncatedRef {
+  code: string;
+  title: string;
+  /** 检索到的片段原始 token 数 */
+  originalTokens: number;
+  /** 实际放入提示词的 token 数 */
+  includedTokens: number;
+  /** 被整段省略的片段编号 */
+  droppedChunks: string[];
+  /** 被截短的片段编号 */
+  trimmedChunks: string[];
 }
 
+/**
+ * 引用核验状态
+ * verified：与本次提供的资料一致；mismatched：资料存在但作者、标题或片段对不上；
+ * unknown：不在本次提供的资料中（可能是编造的）
+ */
+export type CitationStatus = 'verified' | 'mismatched' | 'unknown';
+
+export interface CitationRef {
+  /** 回答中的原始引用，如 "[Paul Graham - How to Get Startup Ideas (8z#3)]" */
+  raw: string;
+  author: string;
+  title: string;
+  /** 引用中标注的片段编号 */
+  chunkIds?: string[];
+  /** 对应的资源代码（无法对应时省略） */
+  code?: string;
+  status: CitationStatus;
+  /** 不一致的原因 */
+  issues?: string[];
+  /** 在回答中出现的次数 */
+  occurrences: number;
+}
+
+export interface QuoteRef {
+  text: string;
+  found: boolean;
+  /** 找到原文的资源 */
+  code?: string;
+}
+
+export interface CitationReport {
+  /** verified：全部核验通过；partial：部分存疑；unverified：均无法核验；none：回答没有引用 */
+  status: 'verified' | 'partial' | 'unverified' | 'none';
+  citations: CitationRef[];
+  /** 原文引述（翻译过的引述无法比对，不在其中） */
+  quotes: QuoteRef[];
+}
+
+export type ChatStreamEvent =
+  | {
+      type: 'metadata';
+      resources: ResourceRef[];
+      chunks?: ChunkRef[];
+      totalFound: number;
+      /** 结合对话上下文改写后的检索查询（未改写时省略） */
+      rewrittenQuery?: string;
+      /** 从问题中推断出的分类/阶段过滤条件 */
+      inferredFilters?: { categories?: string[]; stages?: string[] };
+      /** 因上下文预算被截断的资源 */
+      truncated?: TruncatedRef[];
+    }
+  | { type: 'content'; chunk: string }
+  /** 回答生成后对引用的核验，在 done 之前发送 */
+  | ({ type: 'citations' } & CitationReport)
+  | {
+      type: 'done';
+      executionTime: number;
+      totalTokens: number;
+      model?: string;
+      usage?: RequestUsage;
+      /** 保存本轮问答的会话 */
+      conversationId?: string;
+    }
+  | { type: 'error'; error: string; code?: string };
+
 export interface ValidationResult<T = unknown> {
   valid: boolean;
   error?: string;
   data?: T;
 }
 
+// ==================== 用量类型 ====================
+
+export interface RequestUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** 模型服务未返回用量时为本地估算值 */
+  estimated: boolean;
+  /** 按模型定价估算的费用（美元） */
+  costUsd: number;
+}
+
+export interface TokenUsageSummary {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface ClientUsage {
+  clientId: string;
+  firstSeen: number;
+  lastSeen: number;
+  totals: TokenUsageSummary;
+  byModel: Record<string, TokenUsageSummary>;
+}
+
+// ==================== 会话类型 ====================
+
+export interface StoredMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  resources?: ResourceRef[];
+  chunks?: ChunkRef[];
+  citations?: CitationReport;
+  /** 实际回答的模型 */
+  model?: string;
+}
+
+/** 滚动摘要：超出最近几轮的早期对话被压缩为创业者画像与讨论要点 */
+export interface ConversationMemory {
+  /** 创业者画像：阶段、想法、行业、团队、约束等 */
+  profile: string;
+  /** 已讨论的问题与关键建议 */
+  discussion: string;
+  /** 已压缩进摘要的消息条数（从会话开头计） */
+  summarizedCount: number;
+  updatedAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+  memory?: ConversationMemory;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+/**
+ * 会话存储：按所有者（浏览器会话或 API Key）隔离
+ * 读取他人或不存在的会话均返回 null
+ */
+export interface ConversationStore {
+  list(ownerId: string): Promise<ConversationSummary[]>;
+  get(ownerId: string, id: string): Promise<Conversation | null>;
+  create(ownerId: string, title?: string): Promise<Conversation>;
+  /** 追加消息；replaceLast 为真时先移除最后一轮问答 */
+  append(ownerId: string, id: string, messages: StoredMessage[], replaceLast?: boolean): Promise<Conversation | null>;
+  rename(ownerId: string, id: string, title: string): Promise<Conversation | null>;
+  /** 更新滚动摘要；覆盖消息更少的旧摘要不会生效 */
+  updateMemory(ownerId: string, id: string, memory: ConversationMemory): Promise<Conversation | null>;
+  delete(ownerId: string, id: string): Promise<boolean>;
+}
+
+// ==================== 创业者档案类型 ====================
+
+/** 档案中的阶段；知识库中的 'all' 只用于标注资源 */
+export type ProfileStage = Exclude<FounderStage, 'all'>;
+
+export type FundraisingStatus = 'not-raising' | 'raising' | 'raised-seed' | 'raised-series-a';
+
+export type ProfileField = 'stage' | 'industry' | 'teamSize' | 'fundraising' | 'location';
+
+export interface FounderProfileFields {
+  stage?: ProfileStage;
+  /** 行业或方向，如「B2B SaaS」 */
+  industry?: string;
+  /** 团队人数（含创始人） */
+  teamSize?: number;
+  fundraising?: FundraisingStatus;
+  location?: string;
+}
+
+/** 档案更新：null 表示清除该字段 */
+export type FounderProfileUpdate = { [K in ProfileField]?: FounderProfileFields[K] | null };
+
+export interface FounderProfile extends FounderProfileFields {
+  /** 从对话中推断的字段；用户填写的字段不会被推断结果覆盖 */
+  inferred: ProfileField[];
+  updatedAt: string;
+}
+
+/** 档案存储：与会话相同，按所有者（浏览器会话或 API Key）隔离 */
+export interface ProfileStore {
+  get(ownerId: string): Promise<FounderProfile | null>;
+  save(ownerId: string, profile: FounderProfile): Promise<FounderProfile>;
+  delete(ownerId: string): Promise<boolean>;
+}
+
+// ==================== 配额类型 ====================
+
+/** 内部工具使用的 API Key 及其每日配额（未设置的配额不限制） */
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  dailyRequests?: number;
+  dailyTokens?: number;
+}
+
+export interface QuotaUsage {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+export interface QuotaStatus {
+  keyName: string;
+  requests: QuotaUsage;
+  tokens: QuotaUsage;
+  /** 配额重置时间（UTC 零点，ISO 格式） */
+  resetsAt: string;
+}
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  /** 超出的配额类型 */
+  exceeded?: 'requests' | 'tokens';
+  retryAfter?: number;
+  status: QuotaStatus;
+}
+
 // ==================== 限流类型 ====================
 
 export interface RateLimitRecord {
@@ -37,6 +317,31 @@ export interface RateLimitResult {
   allowed: boolean;
   retryAfter?: number;
   remaining?: number;
+  /** 窗口内允许的请求数 */
+  limit?: number;
+}
+
+/**
+ * 限流算法
+ * - fixed-window：固定窗口计数
+ * - sliding-window：滑动窗口（按请求时间戳精确计数）
+ * - token-bucket：令牌桶，容量为 max，每个窗口匀速补充 max 个令牌
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  windowMs: number;
+  max: number;
+}
+
+/** 限流记录存储：每次请求消耗一次额度，并返回是否允许 */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    rule: RateLimitRule,
+    algorithm: RateLimitAlgorithm,
+    now: number
+  ): Promise<RateLimitResult>;
 }
 
 // ==================== 组件类型 ====================
@@ -45,7 +350,13 @@ export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  resources?: { code: string; title: string; author: string }[];
+  resources?: ResourceRef[];
+  /** 放入提示词的片段（metadata 事件），用于定位原文 */
+  chunks?: ChunkRef[];
+  /** 引用核验结果（回答完成后到达） */
+  citations?: CitationReport;
+  /** 实际回答的模型 */
+  model?: string;
 }
 
 export interface Topic {
@@ -58,14 +369,18 @@ export interface Topic {
 
 export type ApiResponse<T = unknown> = 
   | { success: true; data: T }
-  | { success: false; error: string; details?: string };
+  | { success: false; error: string; code: string; details?: string; retryAfter?: number };
 
 export function successResponse<T>(data: T): ApiResponse<T> {
   return { success: true, data };
 }
 
-export function errorResponse(error: string, details?: string): ApiResponse<never> {
-  return { success: false, error, ...(details && { details }) };
+export function errorResponse(
+  error: string,
+  code: string = ErrorCode.SERVICE_ERROR,
+  details?: string
+): ApiResponse<never> {
+  return { success: false, error, code, ...(details && { details }) };
 }
 
 // ==================== 错误类型 ====================
@@ -85,8 +400,57 @@ export class AppError extends Error {
 export enum ErrorCode {
   INVALID_REQUEST = 'INVALID_REQUEST',
   RATE_LIMITED = 'RATE_LIMITED',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
   SERVICE_ERROR = 'SERVICE_ERROR',
   TIMEOUT = 'TIMEOUT',
   UNAUTHORIZED = 'UNAUTHORIZED',
   NOT_FOUND = 'NOT_FOUND',
 }
+
+export class InvalidRequestError extends AppError {
+  constructor(message: string, details?: string) {
+    super(message, ErrorCode.INVALID_REQUEST, 400, details);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string) {
+    super(message, ErrorCode.UNAUTHORIZED, 401);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(message, ErrorCode.NOT_FOUND, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 限流或配额用尽，retryAfter 为建议的重试等待秒数 */
+export class RateLimitedError extends AppError {
+  constructor(
+    message: string,
+    public retryAfter?: number,
+    code: ErrorCode.RATE_LIMITED | ErrorCode.QUOTA_EXCEEDED = ErrorCode.RATE_LIMITED
+  ) {
+    super(message, code, 429);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class RequestTimeoutError extends AppError {
+  constructor(message: string, details?: string) {
+    super(message, ErrorCode.TIMEOUT, 504, details);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/** 上游服务或服务端配置故障 */
+export class ServiceError extends AppError {
+  constructor(message: string, statusCode: number = 500, details?: string) {
+    super(message, ErrorCode.SERVICE_ERROR, statusCode, details);
+    this.name = 'ServiceError';
+  }
+}
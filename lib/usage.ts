@@ -0,0 +1,78 @@
+// 按客户端聚合的 token 用量统计（内存实现）
+// 注意：与 rate-limit 一样，多实例部署时各实例分别统计
+
+import type { TokenUsageSummary, ClientUsage } from './types';
+
+const usageByClient = new Map<string, ClientUsage>();
+
+// 超过该时间未活跃的客户端记录会被清理
+const USAGE_TTL = 24 * 60 * 60 * 1000; // 24 小时
+const CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 小时
+
+let lastCleanup = Date.now();
+
+function cleanupIdleClients() {
+  const now = Date.now();
+  if (now - lastCleanup < CLEANUP_INTERVAL) {
+    return;
+  }
+
+  lastCleanup = now;
+  const entries = Array.from(usageByClient.entries());
+  for (const [clientId, usage] of entries) {
+    if (now - usage.lastSeen > USAGE_TTL) {
+      usageByClient.delete(clientId);
+    }
+  }
+}
+
+function emptyTotals(): TokenUsageSummary {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addTo(totals: TokenUsageSummary, usage: Omit<TokenUsageSummary, 'requests'>, countRequest: boolean) {
+  if (countRequest) totals.requests++;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.costUsd += usage.costUsd;
+}
+
+/**
+ * 记录一次请求的用量
+ * countRequest 为 false 时只累加 token 和费用，不计入请求数（如会话摘要）
+ */
+export function recordUsage(
+  clientId: string,
+  model: string,
+  usage: Omit<TokenUsageSummary, 'requests'>,
+  countRequest = true
+): ClientUsage {
+  cleanupIdleClients();
+
+  const now = Date.now();
+  let record = usageByClient.get(clientId);
+  if (!record) {
+    record = { clientId, firstSeen: now, lastSeen: now, totals: emptyTotals(), byModel: {} };
+    usageByClient.set(clientId, record);
+  }
+
+  record.lastSeen = now;
+  addTo(record.totals, usage, countRequest);
+  if (!record.byModel[model]) {
+    record.byModel[model] = emptyTotals();
+  }
+  addTo(record.byModel[model], usage, countRequest);
+
+  return record;
+}
+
+export function getClientUsage(clientId: string): ClientUsage | undefined {
+  return usageByClient.get(clientId);
+}
+
+/** 所有客户端的用量，按 token 数降序 */
+export function getAllUsage(): ClientUsage[] {
+  return Array.from(usageByClient.values())
+    .sort((a, b) => b.totals.totalTokens - a.totals.totalTokens);
+}
@@ -0,0 +1,310 @@
+// 请求校验
+// 校验 API 请求体结构与大小，失败时给出指向具体字段的错误说明
+
+import { CATEGORIES } from './knowledge/types';
+import { MAX_TITLE_LENGTH, isValidConversationId } from './conversations/utils';
+import {
+  PROFILE_FIELDS,
+  PROFILE_LIMITS,
+  isFundraisingStatus,
+  isProfileStage,
+} from './profiles/utils';
+import type {
+  ChatMessage,
+  ChatRequest,
+  FounderProfileUpdate,
+  ProfileField,
+  ValidationResult,
+} from './types';
+
+export const CHAT_REQUEST_LIMITS = {
+  /** 请求体最大字节数 */
+  maxBodyBytes: 64 * 1024,
+  /** 问题最大字符数 */
+  maxMessageLength: 4000,
+  /** 历史消息最大条数 */
+  maxHistoryItems: 20,
+  /** 单条历史消息最大字符数（助手回答可能较长） */
+  maxHistoryContentLength: 12000,
+  maxModelIdLength: 200,
+};
+
+/** 会话接口请求体最大字节数 */
+export const CONVERSATION_BODY_LIMIT = 4 * 1024;
+
+/** 档案接口请求体最大字节数 */
+export const PROFILE_BODY_LIMIT = 4 * 1024;
+
+const CHAT_REQUEST_FIELDS = new Set([
+  'message', 'history', 'stream', 'category', 'model', 'conversationId', 'regenerate',
+]);
+const ROLES: ChatMessage['role'][] = ['user', 'assistant'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid<T>(error: string): ValidationResult<T> {
+  return { valid: false, error };
+}
+
+function validateHistory(history: unknown): ValidationResult<ChatMessage[]> {
+  if (!Array.isArray(history)) {
+    return invalid('history must be an array');
+  }
+  if (history.length > CHAT_REQUEST_LIMITS.maxHistoryItems) {
+    return invalid(`history must have at most ${CHAT_REQUEST_LIMITS.maxHistoryItems} entries`);
+  }
+
+  const messages: ChatMessage[] = [];
+  for (let i = 0; i < history.length; i++) {
+    const entry = history[i];
+    if (!isPlainObject(entry)) {
+      return invalid(`history[${i}] must be an object`);
+    }
+    if (!ROLES.includes(entry.role as ChatMessage['role'])) {
+      return invalid(`history[${i}].role must be one of: ${ROLES.join(', ')}`);
+    }
+    if (typeof entry.content !== 'string') {
+      return invalid(`history[${i}].content must be a string`);
+    }
+    if (entry.content.length > CHAT_REQUEST_LIMITS.maxHistoryContentLength) {
+      return invalid(`history[${i}].content exceeds ${CHAT_REQUEST_LIMITS.maxHistoryContentLength} characters`);
+    }
+    messages.push({ role: entry.role as ChatMessage['role'], content: entry.content });
+  }
+
+  return { valid: true, data: messages };
+}
+
+/** 请求体中为问题以外的字段（分类、模型等）预留的字节数 */
+const RESERVED_BODY_BYTES = 4 * 1024;
+
+/**
+ * 客户端发送历史前按请求体上限裁剪：从最近的消息往前保留，
+ * 过长的消息截断，保证请求体不会因历史累积超过 maxBodyBytes
+ */
+export function fitHistory(history: ChatMessage[], message: string): ChatMessage[] {
+  const encoder = new TextEncoder();
+  let budget = CHAT_REQUEST_LIMITS.maxBodyBytes - RESERVED_BODY_BYTES
+    - encoder.encode(JSON.stringify(message)).length;
+
+  const fitted: ChatMessage[] = [];
+  for (const { role, content } of history.slice(-CHAT_REQUEST_LIMITS.maxHistoryItems).reverse()) {
+    const entry = { role, content: content.slice(0, CHAT_REQUEST_LIMITS.maxHistoryContentLength) };
+    // 加 1 字节数组分隔符
+    const size = encoder.encode(JSON.stringify(entry)).length + 1;
+    if (size > budget) break;
+    budget -= size;
+    fitted.unshift(entry);
+  }
+  return fitted;
+}
+
+/** 校验对话请求，返回去除多余字段后的请求 */
+export function validateChatRequest(body: unknown): ValidationResult<ChatRequest> {
+  if (!isPlainObject(body)) {
+    return invalid('Request body must be a JSON object');
+  }
+
+  const unknownField = Object.keys(body).find(key => !CHAT_REQUEST_FIELDS.has(key));
+  if (unknownField) {
+    return invalid(`Unknown field: ${unknownField}`);
+  }
+
+  const { message, history, stream, category, model, conversationId, regenerate } = body;
+
+  if (typeof message !== 'string' || !message.trim()) {
+    return invalid('message is required and must be a non-empty string');
+  }
+  if (message.length > CHAT_REQUEST_LIMITS.maxMessageLength) {
+    return invalid(`message exceeds ${CHAT_REQUEST_LIMITS.maxMessageLength} characters`);
+  }
+
+  let validHistory: ChatMessage[] = [];
+  if (history !== undefined) {
+    const result = validateHistory(history);
+    if (!result.valid) return invalid(result.error!);
+    validHistory = result.data!;
+  }
+
+  if (stream !== undefined && typeof stream !== 'boolean') {
+    return invalid('stream must be a boolean');
+  }
+
+  if (category !== undefined && !CATEGORIES.includes(category as typeof CATEGORIES[number])) {
+    return invalid(`Unknown category: ${String(category)}`);
+  }
+
+  if (model !== undefined) {
+    if (typeof model !== 'string' || !model) {
+      return invalid('model must be a non-empty string');
+    }
+    if (model.length > CHAT_REQUEST_LIMITS.maxModelIdLength) {
+      return invalid(`model exceeds ${CHAT_REQUEST_LIMITS.maxModelIdLength} characters`);
+    }
+  }
+
+  if (conversationId !== undefined && (typeof conversationId !== 'string' || !isValidConversationId(conversationId))) {
+    return invalid('conversationId must be a conversation id');
+  }
+
+  if (regenerate !== undefined && typeof regenerate !== 'boolean') {
+    return invalid('regenerate must be a boolean');
+  }
+  if (regenerate && conversationId === undefined) {
+    return invalid('regenerate requires conversationId');
+  }
+
+  return {
+    valid: true,
+    data: {
+      message,
+      history: validHistory,
+      stream: stream as boolean | undefined,
+      category: category as string | undefined,
+      model: model as string | undefined,
+      conversationId: conversationId as string | undefined,
+      regenerate: regenerate as boolean | undefined,
+    },
+  };
+}
+
+/** 校验会话创建 / 重命名请求；requireTitle 为假时允许省略标题 */
+export function validateConversationTitle(body: unknown, requireTitle: boolean): ValidationResult<{ title?: string }> {
+  if (body === undefined && !requireTitle) {
+    return { valid: true, data: {} };
+  }
+  if (!isPlainObject(body)) {
+    return invalid('Request body must be a JSON object');
+  }
+
+  const unknownField = Object.keys(body).find(key => key !== 'title');
+  if (unknownField) {
+    return invalid(`Unknown field: ${unknownField}`);
+  }
+
+  const { title } = body;
+  if (title === undefined && !requireTitle) {
+    return { valid: true, data: {} };
+  }
+  if (typeof title !== 'string' || !title.trim()) {
+    return invalid('title must be a non-empty string');
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    return invalid(`title exceeds ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  return { valid: true, data: { title } };
+}
+
+function validateText(field: ProfileField, value: unknown): ValidationResult<string> {
+  if (typeof value !== 'string' || !value.trim()) {
+    return invalid(`${field} must be a non-empty string`);
+  }
+  if (value.length > PROFILE_LIMITS.maxTextLength) {
+    return invalid(`${field} exceeds ${PROFILE_LIMITS.maxTextLength} characters`);
+  }
+  return { valid: true, data: value.replace(/\s+/g, ' ').trim() };
+}
+
+/** 校验档案更新；字段为 null 表示清除 */
+export function validateProfileUpdate(body: unknown): ValidationResult<FounderProfileUpdate> {
+  if (!isPlainObject(body)) {
+    return invalid('Request body must be a JSON object');
+  }
+
+  const unknownField = Object.keys(body).find(key => !PROFILE_FIELDS.includes(key as ProfileField));
+  if (unknownField) {
+    return invalid(`Unknown field: ${unknownField}`);
+  }
+
+  const update: FounderProfileUpdate = {};
+  const { stage, industry, teamSize, fundraising, location } = body;
+
+  if (stage !== undefined) {
+    if (stage !== null && !isProfileStage(stage)) {
+      return invalid(`Unknown stage: ${String(stage)}`);
+    }
+    update.stage = stage;
+  }
+
+  if (teamSize !== undefined) {
+    if (teamSize !== null && (
+      typeof teamSize !== 'number' ||
+      !Number.isInteger(teamSize) ||
+      teamSize < 1 ||
+      teamSize > PROFILE_LIMITS.maxTeamSize
+    )) {
+      return invalid(`teamSize must be an integer between 1 and ${PROFILE_LIMITS.maxTeamSize}`);
+    }
+    update.teamSize = teamSize;
+  }
+
+  if (fundraising !== undefined) {
+    if (fundraising !== null && !isFundraisingStatus(fundraising)) {
+      return invalid(`Unknown fundraising status: ${String(fundraising)}`);
+    }
+    update.fundraising = fundraising;
+  }
+
+  for (const [field, value] of [['industry', industry], ['location', location]] as const) {
+    if (value === undefined) continue;
+    if (value === null) {
+      update[field] = null;
+      continue;
+    }
+    const result = validateText(field, value);
+    if (!result.valid) return invalid(result.error!);
+    update[field] = result.data;
+  }
+
+  return { valid: true, data: update };
+}
+
+/** 逐块读取请求体；超过 maxBytes 时停止读取并返回 null */
+async function readBodyText(req: Request, maxBytes: number): Promise<string | null> {
+  if (!req.body) return '';
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) return null;
+      chunks.push(value);
+    }
+  } finally {
+    // 提前返回时丢弃剩余数据
+    reader.cancel().catch(() => undefined);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/** 读取 JSON 请求体，超过大小上限时不解析 */
+export async function readJsonBody(req: Request, maxBytes: number): Promise<ValidationResult<unknown>> {
+  const declared = Number(req.headers.get('content-length'));
+  if (declared > maxBytes) {
+    return invalid(`Request body exceeds ${maxBytes} bytes`);
+  }
+
+  // Content-Length 可能缺失或不准确（如分块上传），以实际读取的字节数为准
+  const text = await readBodyText(req, maxBytes);
+  if (text === null) {
+    return invalid(`Request body exceeds ${maxBytes} bytes`);
+  }
+
+  // 空请求体视为未提供
+  if (!text.trim()) {
+    return { valid: true, data: undefined };
+  }
+
+  try {
+    return { valid: true, data: JSON.parse(text) };
+  } catch {
+    return invalid('Request body is not valid JSON');
+  }
+}
@@ -5,6 +5,9 @@ const nextConfig = {
     // Include data and references directories in the standalone output
     outputFileTracingIncludes: {
       '/api/chat': ['./data/**/*', './references/**/*'],
+      '/api/search': ['./data/**/*'],
+      '/api/resources/[code]': ['./data/**/*', './references/**/*'],
+      '/api/categories': ['./data/**/*'],
       '/api/knowledge/categories': ['./data/**/*', './references/**/*'],
       '/api/knowledge/resource/[code]': ['./data/**/*', './references/**/*'],
     },
@@ -1,11 +1,16 @@
 /**
  * Build Knowledge Index from YAML source
- * Converts index.yaml to optimized JSON index
+ * Converts index.yaml to optimized JSON index and builds the BM25
+ * full-text index over resource bodies
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
+import { buildBm25Index } from '../lib/knowledge/bm25';
+import { chunkMarkdown, CHUNK_INDEX_VERSION } from '../lib/knowledge/chunking';
+import { createEmbedder, EMBEDDING_INDEX_VERSION } from '../lib/knowledge/embeddings';
+import type { ChunkIndex, EmbeddingIndex } from '../lib/knowledge/types';
 
 // ============================================================================
 // Types
@@ -185,15 +190,24 @@ async function hasTranscript(filePath: string): Promise<boolean> {
 async function buildIndex(): Promise<void> {
   console.log('🔧 Building YC Knowledge Index v2...\n');
   
-  // Paths - use workspace from environment or default
-  const workspaceRoot = process.env.WORKSPACE_ROOT || '/Users/gongzhen/.openclaw/workspace';
-  const sourceDir = path.join(workspaceRoot, 'skills', 'yc-advisor', 'references');
+  // Paths - use workspace from environment, else the bundled references
+  const workspaceRoot = process.env.WORKSPACE_ROOT;
+  const sourceDir = workspaceRoot
+    ? path.join(workspaceRoot, 'skills', 'yc-advisor', 'references')
+    : path.join(process.cwd(), 'references');
   const yamlPath = path.join(sourceDir, 'index.yaml');
   const outputDir = path.join(process.cwd(), 'data');
   const outputPath = path.join(outputDir, 'knowledge-index.json');
+  const bm25OutputPath = path.join(outputDir, 'bm25-index.json');
+  const chunkOutputPath = path.join(outputDir, 'chunk-index.json');
+  const embeddingOutputPath = path.join(outputDir, 'embedding-index.json');
+  const embedder = createEmbedder(process.env.EMBEDDING_MODEL);
   
   console.log(`📁 Source: ${yamlPath}`);
-  console.log(`📁 Output: ${outputPath}\n`);
+  console.log(`📁 Output: ${outputPath}`);
+  console.log(`📁 BM25 Output: ${bm25OutputPath}`);
+  console.log(`📁 Chunk Output: ${chunkOutputPath}`);
+  console.log(`📁 Embedding Output: ${embeddingOutputPath} (${embedder.model})\n`);
   
   try {
     // Read YAML
@@ -227,6 +241,9 @@ async function buildIndex(): Promise<void> {
     const uniqueCategories = new Set<string>();
     const uniqueAuthors = new Set<string>();
     
+    // Resource bodies for the full-text index
+    const documents: { code: string; text: string }[] = [];
+    
     // Process resources
     console.log('🔄 Processing resources...');
     
@@ -238,6 +255,15 @@ async function buildIndex(): Promise<void> {
       const filePath = path.join(sourceDir, resource.file);
       const hasContent = await hasTranscript(filePath);
       
+      try {
+        documents.push({
+          code: resource.code,
+          text: await fs.readFile(filePath, 'utf-8'),
+        });
+      } catch {
+        console.warn(`   ⚠️  Missing content for ${resource.code}: ${resource.file}`);
+      }
+      
       // Add to resources
       index.resources[resource.code] = {
         code: resource.code,
@@ -293,6 +319,50 @@ async function buildIndex(): Promise<void> {
     console.log('🔤 Building keyword index...');
     index.searchIndex.keywords = buildKeywordIndex(yamlIndex.resources);
     
+    // Build BM25 full-text index
+    console.log('📚 Building BM25 full-text index...');
+    const bm25Index = buildBm25Index(documents);
+    
+    // Build chunk index: heading-aware chunks, BM25 over chunk text
+    console.log('✂️  Chunking resources...');
+    const chunkBoundaries: ChunkIndex['chunks'] = {};
+    const chunkDocuments: { code: string; text: string }[] = [];
+    
+    for (const doc of documents) {
+      const chunks = chunkMarkdown(doc.code, doc.text);
+      chunkBoundaries[doc.code] = chunks.map(({ text: _text, ...boundary }) => boundary);
+      for (const chunk of chunks) {
+        chunkDocuments.push({
+          code: chunk.id,
+          text: chunk.heading ? `${chunk.heading}\n${chunk.text}` : chunk.text,
+        });
+      }
+    }
+    
+    const chunkIndex: ChunkIndex = {
+      version: CHUNK_INDEX_VERSION,
+      generatedAt: index.generatedAt,
+      chunks: chunkBoundaries,
+      bm25: buildBm25Index(chunkDocuments),
+    };
+    
+    // Build embedding index over title, topics and body
+    console.log('🧭 Embedding resources...');
+    const embeddingTexts = documents.map(doc => {
+      const meta = index.resources[doc.code];
+      return `${meta.title}\n${meta.topics.join(' ')}\n${doc.text}`;
+    });
+    const vectors = await embedder.embed(embeddingTexts);
+    const embeddingIndex: EmbeddingIndex = {
+      version: EMBEDDING_INDEX_VERSION,
+      generatedAt: index.generatedAt,
+      model: embedder.model,
+      dimensions: embedder.dimensions,
+      docs: documents.map(doc => doc.code),
+      // 4 decimals keeps cosine ranking intact at a fraction of the size
+      vectors: vectors.map(v => v.map(x => Math.round(x * 1e4) / 1e4)),
+    };
+    
     // Update final stats
     index.stats.totalCategories = uniqueCategories.size;
     index.stats.totalAuthors = uniqueAuthors.size;
@@ -308,6 +378,11 @@ async function buildIndex(): Promise<void> {
       'utf-8'
     );
     
+    // Compact JSON: the postings lists dominate the file size
+    await fs.writeFile(bm25OutputPath, JSON.stringify(bm25Index), 'utf-8');
+    await fs.writeFile(chunkOutputPath, JSON.stringify(chunkIndex), 'utf-8');
+    await fs.writeFile(embeddingOutputPath, JSON.stringify(embeddingIndex), 'utf-8');
+    
     // Print summary
     console.log('\n✅ Build complete!\n');
     console.log('📊 Statistics:');
@@ -317,6 +392,10 @@ async function buildIndex(): Promise<void> {
     console.log(`   Total Lines: ${index.stats.totalLines.toLocaleString()}`);
     console.log(`   Avg Lines/Resource: ${Math.round(index.stats.totalLines / index.stats.totalResources)}`);
     console.log(`   Keywords Indexed: ${Object.keys(index.searchIndex.keywords).length}`);
+    console.log(`   Full-text Documents: ${bm25Index.docs.length}`);
+    console.log(`   Full-text Terms: ${Object.keys(bm25Index.postings).length}`);
+    console.log(`   Chunks: ${chunkIndex.bm25.docs.length}`);
+    console.log(`   Embeddings: ${embeddingIndex.docs.length} x ${embeddingIndex.dimensions} (${embeddingIndex.model})`);
     
     console.log('\n📚 Top Categories:');
     const sortedCategories = Object.entries(index.categories)
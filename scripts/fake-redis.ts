@@ -0,0 +1,366 @@
+/**
+ * Fake Redis Server
+ * In-process RESP server for testing the Redis rate-limit store without a
+ * redis-server. Keeps strings, hashes and sorted sets in memory and runs
+ * EVAL scripts in a Lua VM (fengari) whose redis.call() maps onto them.
+ *
+ * Only the commands used by lib/rate-limit are implemented.
+ */
+
+import * as net from 'net';
+import { lua, lauxlib, lualib, to_luastring } from 'fengari';
+import type { RespValue } from '../lib/rate-limit';
+
+// ============================================================================
+// Data
+// ============================================================================
+
+type Value =
+  | { type: 'string'; data: string }
+  | { type: 'hash'; data: Map<string, string> }
+  | { type: 'zset'; data: Map<string, number> };
+
+type Entry = Value & { expiresAt?: number };
+
+class CommandError extends Error {}
+
+export interface FakeRedisOptions {
+  /** Required by AUTH when set */
+  password?: string;
+  /** Server clock in milliseconds, used for key expiry */
+  now?: () => number;
+}
+
+function parseScore(value: string): number {
+  if (value === '-inf') return -Infinity;
+  if (value === '+inf' || value === 'inf') return Infinity;
+  const score = Number(value);
+  if (Number.isNaN(score)) throw new CommandError('ERR min or max is not a float');
+  return score;
+}
+
+function formatScore(score: number): string {
+  return String(score);
+}
+
+// ============================================================================
+// RESP
+// ============================================================================
+
+function encodeReply(value: RespValue | CommandError): string {
+  if (value instanceof CommandError) return `-${value.message}\r\n`;
+  if (value === null) return '$-1\r\n';
+  if (typeof value === 'number') return `:${value}\r\n`;
+  if (Array.isArray(value)) return `*${value.length}\r\n${value.map(encodeReply).join('')}`;
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/** Parse one "*<n> $<len> <arg> ..." command; undefined while incomplete */
+function parseCommand(buffer: Buffer, offset: number): { args: string[]; next: number } | undefined {
+  let lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+  const count = Number(buffer.toString('utf-8', offset + 1, lineEnd));
+  let cursor = lineEnd + 2;
+
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    lineEnd = buffer.indexOf('\r\n', cursor);
+    if (lineEnd === -1) return undefined;
+    const length = Number(buffer.toString('utf-8', cursor + 1, lineEnd));
+    cursor = lineEnd + 2;
+    if (buffer.length < cursor + length + 2) return undefined;
+    args.push(buffer.toString('utf-8', cursor, cursor + length));
+    cursor += length + 2;
+  }
+  return { args, next: cursor };
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export class FakeRedisServer {
+  password?: string;
+  /** Answer the next command with bytes that are not valid RESP */
+  corruptNextReply = false;
+
+  private data = new Map<string, Entry>();
+  private server = net.createServer(socket => this.onConnection(socket));
+  private sockets = new Set<net.Socket>();
+  private now: () => number;
+
+  constructor(options: FakeRedisOptions = {}) {
+    this.password = options.password;
+    this.now = options.now || Date.now;
+  }
+
+  /** Listen on a free local port and return a redis:// URL without credentials */
+  listen(): Promise<string> {
+    return new Promise(resolve => {
+      this.server.listen(0, '127.0.0.1', () => {
+        const { port } = this.server.address() as net.AddressInfo;
+        resolve(`redis://127.0.0.1:${port}`);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  flush(): void {
+    this.data.clear();
+  }
+
+  private onConnection(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => undefined);
+
+    let authenticated = !this.password;
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let offset = 0;
+      while (offset < buffer.length) {
+        const command = parseCommand(buffer, offset);
+        if (!command) break;
+        offset = command.next;
+
+        if (this.corruptNextReply) {
+          this.corruptNextReply = false;
+          socket.write('?garbage\r\n');
+          continue;
+        }
+
+        const [name, ...args] = command.args;
+        let reply: RespValue | CommandError;
+        if (name.toUpperCase() === 'AUTH') {
+          authenticated = args[args.length - 1] === this.password;
+          reply = authenticated ? 'OK' : new CommandError('WRONGPASS invalid username-password pair');
+        } else if (!authenticated) {
+          reply = new CommandError('NOAUTH Authentication required.');
+        } else {
+          try {
+            reply = this.execute(command.args);
+          } catch (error) {
+            reply = error instanceof CommandError ? error : new CommandError(`ERR ${error}`);
+          }
+        }
+        socket.write(encodeReply(reply));
+      }
+      buffer = buffer.subarray(offset);
+    });
+  }
+
+  // ==========================================================================
+  // Commands
+  // ==========================================================================
+
+  private execute([name, ...args]: string[]): RespValue {
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return 'PONG';
+      case 'SELECT': {
+        const db = Number(args[0]);
+        if (!Number.isInteger(db) || db < 0 || db > 15) throw new CommandError('ERR DB index is out of range');
+        return 'OK';
+      }
+      case 'EVAL':
+        return this.eval(args[0], args.slice(2, 2 + Number(args[1])), args.slice(2 + Number(args[1])));
+      default:
+        return this.call([name, ...args]);
+    }
+  }
+
+  /** Commands available both directly and through redis.call() */
+  private call([name, key, ...args]: string[]): RespValue {
+    switch (name.toUpperCase()) {
+      case 'DEL':
+        return this.data.delete(key) ? 1 : 0;
+
+      case 'INCR': {
+        const entry = this.get(key, 'string');
+        const count = Number(entry?.data || 0) + 1;
+        this.data.set(key, { type: 'string', data: String(count), expiresAt: entry?.expiresAt });
+        return count;
+      }
+
+      case 'PEXPIRE': {
+        const entry = this.get(key);
+        if (!entry) return 0;
+        entry.expiresAt = this.now() + Number(args[0]);
+        return 1;
+      }
+
+      case 'PTTL': {
+        const entry = this.get(key);
+        if (!entry) return -2;
+        return entry.expiresAt === undefined ? -1 : entry.expiresAt - this.now();
+      }
+
+      case 'HMGET': {
+        const hash = this.get(key, 'hash')?.data;
+        return args.map(field => hash?.get(field) ?? null);
+      }
+
+      case 'HSET': {
+        const entry = this.get(key, 'hash') || this.create(key, { type: 'hash', data: new Map() });
+        let added = 0;
+        for (let i = 0; i < args.length; i += 2) {
+          if (!entry.data.has(args[i])) added++;
+          entry.data.set(args[i], args[i + 1]);
+        }
+        return added;
+      }
+
+      case 'ZADD': {
+        const entry = this.get(key, 'zset') || this.create(key, { type: 'zset', data: new Map() });
+        let added = 0;
+        for (let i = 0; i < args.length; i += 2) {
+          if (!entry.data.has(args[i + 1])) added++;
+          entry.data.set(args[i + 1], parseScore(args[i]));
+        }
+        return added;
+      }
+
+      case 'ZCARD':
+        return this.get(key, 'zset')?.data.size || 0;
+
+      case 'ZREMRANGEBYSCORE': {
+        const zset = this.get(key, 'zset')?.data;
+        if (!zset) return 0;
+        const [min, max] = args.map(parseScore);
+        let removed = 0;
+        zset.forEach((score, member) => {
+          if (score >= min && score <= max) {
+            zset.delete(member);
+            removed++;
+          }
+        });
+        return removed;
+      }
+
+      case 'ZRANGE': {
+        const zset = this.get(key, 'zset')?.data;
+        if (!zset) return [];
+        const sorted = Array.from(zset.entries()).sort(([a, x], [b, y]) => x - y || a.localeCompare(b));
+        const start = Number(args[0]) < 0 ? sorted.length + Number(args[0]) : Number(args[0]);
+        const stop = Number(args[1]) < 0 ? sorted.length + Number(args[1]) : Number(args[1]);
+        const withScores = args[2]?.toUpperCase() === 'WITHSCORES';
+        return sorted
+          .slice(Math.max(0, start), stop + 1)
+          .flatMap(([member, score]) => withScores ? [member, formatScore(score)] : [member]);
+      }
+
+      default:
+        throw new CommandError(`ERR unknown command '${name}'`);
+    }
+  }
+
+  private get(key: string): Entry | undefined;
+  private get<T extends Value['type']>(key: string, type: T): (Extract<Value, { type: T }> & Entry) | undefined;
+  private get(key: string, type?: Value['type']): Entry | undefined {
+    const entry = this.data.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    if (type && entry.type !== type) {
+      throw new CommandError('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+    return entry;
+  }
+
+  private create<T extends Value>(key: string, value: T): T & Entry {
+    this.data.set(key, value);
+    return value;
+  }
+
+  // ==========================================================================
+  // Lua
+  // ==========================================================================
+
+  /** Run a script with KEYS/ARGV and redis.call(), converting replies like Redis does */
+  private eval(script: string, keys: string[], argv: string[]): RespValue {
+    const L = lauxlib.luaL_newstate();
+    lualib.luaL_openlibs(L);
+
+    const pushStrings = (name: string, values: string[]) => {
+      lua.lua_createtable(L, values.length, 0);
+      values.forEach((value, i) => {
+        lua.lua_pushstring(L, to_luastring(value));
+        lua.lua_rawseti(L, -2, i + 1);
+      });
+      lua.lua_setglobal(L, to_luastring(name));
+    };
+    pushStrings('KEYS', keys);
+    pushStrings('ARGV', argv);
+
+    lua.lua_createtable(L, 0, 1);
+    lua.lua_pushjsfunction(L, (state: unknown) => {
+      const args: string[] = [];
+      for (let i = 1; i <= lua.lua_gettop(state); i++) {
+        args.push(lua.lua_tojsstring(state, i));
+      }
+      try {
+        this.pushLua(state, this.call(args));
+      } catch (error) {
+        return lauxlib.luaL_error(state, to_luastring(error instanceof Error ? error.message : String(error)));
+      }
+      return 1;
+    });
+    lua.lua_setfield(L, -2, to_luastring('call'));
+    lua.lua_setglobal(L, to_luastring('redis'));
+
+    if (lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK
+      || lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+      throw new CommandError(`ERR Error running script: ${lua.lua_tojsstring(L, -1)}`);
+    }
+    return this.fromLua(L, -1);
+  }
+
+  /** Redis reply -> Lua value: nil bulk strings become false */
+  private pushLua(L: unknown, value: RespValue) {
+    if (value === null) {
+      lua.lua_pushboolean(L, false);
+    } else if (typeof value === 'number') {
+      lua.lua_pushinteger(L, value);
+    } else if (Array.isArray(value)) {
+      lua.lua_createtable(L, value.length, 0);
+      value.forEach((item, i) => {
+        this.pushLua(L, item);
+        lua.lua_rawseti(L, -2, i + 1);
+      });
+    } else {
+      lua.lua_pushstring(L, to_luastring(value));
+    }
+  }
+
+  /** Lua value -> Redis reply: numbers are truncated to integers, tables end at the first nil */
+  private fromLua(L: unknown, index: number): RespValue {
+    index = lua.lua_absindex(L, index);
+    switch (lua.lua_type(L, index)) {
+      case lua.LUA_TNUMBER:
+        return Math.trunc(lua.lua_tonumber(L, index));
+      case lua.LUA_TSTRING:
+        return lua.lua_tojsstring(L, index);
+      case lua.LUA_TBOOLEAN:
+        return lua.lua_toboolean(L, index) ? 1 : null;
+      case lua.LUA_TTABLE: {
+        const items: RespValue[] = [];
+        for (let i = 1; lua.lua_rawgeti(L, index, i) !== lua.LUA_TNIL; i++) {
+          items.push(this.fromLua(L, -1));
+          lua.lua_pop(L, 1);
+        }
+        lua.lua_pop(L, 1);
+        return items;
+      }
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,2 @@
+// fengari (Lua VM in JS) ships without type declarations
+declare module 'fengari';
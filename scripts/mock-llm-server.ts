@@ -0,0 +1,267 @@
+/**
+ * Mock LLM Server
+ * Deterministic OpenAI-compatible chat completions server for offline
+ * end-to-end runs of the discover -> deep dive -> synthesize workflow.
+ *
+ * Usage:
+ *   npm run mock:llm
+ *   LLM_PROVIDER=openai OPENAI_BASE_URL=http://localhost:4010/v1 npm run dev
+ *
+ * `npm run test:e2e` starts it in process and checks the chat route against it.
+ *
+ * Scenarios are selected per request with a directive in the last user
+ * message (e.g. "如何融资 [mock:error=429]") or for all requests with
+ * MOCK_LLM_SCENARIO:
+ *   reply        templated (or canned) answer streamed as SSE chunks, usage + [DONE]
+ *   error=<code> respond with an HTTP error status and an OpenAI-style body
+ *   timeout      never send response headers
+ *   stall        stream a few chunks, then go silent without [DONE]
+ *   drop         stream a few chunks, then close the connection
+ *   malformed    interleave invalid JSON lines that clients must skip
+ *
+ * Environment:
+ *   MOCK_LLM_PORT        port (default 4010)
+ *   MOCK_LLM_CHUNK_SIZE  characters per streamed chunk (default 16)
+ *   MOCK_LLM_DELAY_MS    delay between chunks (default 0)
+ *   MOCK_LLM_FIXTURES    JSON file of canned replies: [{ "match": "<regex>", "reply": "..." }]
+ *                        Replies may use {{question}} and {{sources}} placeholders.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import { buildMockReply } from '../lib/llm/mock';
+import { estimateUsage } from '../lib/llm/tokens';
+import type { LLMMessage } from '../lib/llm/types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const PORT = parseInt(process.env.MOCK_LLM_PORT || '4010', 10);
+const CHUNK_SIZE = parseInt(process.env.MOCK_LLM_CHUNK_SIZE || '16', 10);
+const DELAY_MS = parseInt(process.env.MOCK_LLM_DELAY_MS || '0', 10);
+const DEFAULT_SCENARIO = process.env.MOCK_LLM_SCENARIO || 'reply';
+
+/** Chunks sent before a stall or drop */
+const PARTIAL_CHUNKS = 3;
+
+const DIRECTIVE = /\[mock:([a-z]+)(?:=(\d+))?\]/i;
+
+interface Fixture {
+  match: string;
+  reply: string;
+}
+
+interface Scenario {
+  name: string;
+  status?: number;
+}
+
+interface CompletionRequest {
+  model?: string;
+  messages?: LLMMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+}
+
+function loadFixtures(): { pattern: RegExp; reply: string }[] {
+  const file = process.env.MOCK_LLM_FIXTURES;
+  if (!file) return [];
+  const fixtures: Fixture[] = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  return fixtures.map(f => ({ pattern: new RegExp(f.match, 'i'), reply: f.reply }));
+}
+
+const fixtures = loadFixtures();
+
+// ============================================================================
+// Replies
+// ============================================================================
+
+function lastUserMessage(messages: LLMMessage[]): string {
+  return [...messages].reverse().find(m => m.role === 'user')?.content || '';
+}
+
+function parseScenario(messages: LLMMessage[]): Scenario {
+  const match = lastUserMessage(messages).match(DIRECTIVE) || `[mock:${DEFAULT_SCENARIO}]`.match(DIRECTIVE);
+  if (!match) return { name: 'reply' };
+  return { name: match[1].toLowerCase(), status: match[2] ? parseInt(match[2], 10) : undefined };
+}
+
+function buildReply(messages: LLMMessage[]): string {
+  // Directives are test plumbing, not part of the question
+  const cleaned = messages.map(m => ({ ...m, content: m.content.replace(DIRECTIVE, '').trim() }));
+  const question = lastUserMessage(cleaned);
+  const templated = buildMockReply(cleaned);
+
+  const fixture = fixtures.find(f => f.pattern.test(question));
+  if (!fixture) return templated;
+
+  const sources = templated.split('\n').filter(line => line.startsWith('- 参见')).join('\n');
+  return fixture.reply
+    .replace(/\{\{question\}\}/g, question)
+    .replace(/\{\{sources\}\}/g, sources);
+}
+
+function splitChunks(text: string): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+    chunks.push(text.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+let completionCounter = 0;
+
+function sseChunk(id: string, model: string, content: string): string {
+  return `data: ${JSON.stringify({
+    id,
+    object: 'chat.completion.chunk',
+    model,
+    choices: [{ index: 0, delta: { content }, finish_reason: null }],
+  })}\n\n`;
+}
+
+/** OpenAI-style usage object, computed with the local estimator */
+function usageBody(messages: LLMMessage[], reply: string) {
+  const usage = estimateUsage(messages, reply);
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.totalTokens,
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function streamReply(
+  res: http.ServerResponse,
+  scenario: Scenario,
+  body: CompletionRequest,
+  model: string,
+  reply: string
+): Promise<void> {
+  const id = `mock-${++completionCounter}`;
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+
+  const chunks = splitChunks(reply);
+  for (let i = 0; i < chunks.length; i++) {
+    if (res.destroyed) return;
+
+    if (i === PARTIAL_CHUNKS && scenario.name === 'stall') {
+      // Keep the connection open until the client gives up
+      return;
+    }
+    if (i === PARTIAL_CHUNKS && scenario.name === 'drop') {
+      res.destroy();
+      return;
+    }
+    if (scenario.name === 'malformed' && i % 2 === 1) {
+      res.write('data: {"choices": [\n\n');
+    }
+
+    res.write(sseChunk(id, model, chunks[i]));
+    if (DELAY_MS) await sleep(DELAY_MS);
+  }
+
+  res.write(`data: ${JSON.stringify({
+    id,
+    object: 'chat.completion.chunk',
+    model,
+    choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+  })}\n\n`);
+  if (body.stream_options?.include_usage) {
+    res.write(`data: ${JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      model,
+      choices: [],
+      usage: usageBody(body.messages || [], reply),
+    })}\n\n`);
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+async function handleCompletion(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+
+  let body: CompletionRequest;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    sendJson(res, 400, { error: { message: 'Invalid JSON body', type: 'invalid_request_error' } });
+    return;
+  }
+
+  const messages = body.messages || [];
+  const model = body.model || 'mock-advisor';
+  const scenario = parseScenario(messages);
+  console.log(`[MockLLM] ${body.stream ? 'stream' : 'complete'} model=${model} scenario=${scenario.name}${scenario.status ? `=${scenario.status}` : ''}`);
+
+  switch (scenario.name) {
+    case 'error': {
+      const status = scenario.status || 500;
+      sendJson(res, status, { error: { message: `Mock error ${status}`, type: 'mock_error', code: status } });
+      return;
+    }
+    case 'timeout':
+      // Never respond; the client's timeout must fire
+      return;
+  }
+
+  const reply = buildReply(messages);
+
+  if (body.stream) {
+    await streamReply(res, scenario, body, model, reply);
+    return;
+  }
+
+  sendJson(res, 200, {
+    id: `mock-${++completionCounter}`,
+    object: 'chat.completion',
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+    usage: usageBody(messages, reply),
+  });
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'POST' && req.url?.replace(/\/$/, '').endsWith('/chat/completions')) {
+    handleCompletion(req, res).catch(error => {
+      console.error('[MockLLM] Error:', error);
+      if (!res.headersSent) sendJson(res, 500, { error: { message: 'Mock server error' } });
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && req.url?.replace(/\/$/, '').endsWith('/models')) {
+    sendJson(res, 200, { object: 'list', data: [{ id: 'mock-advisor', object: 'model' }] });
+    return;
+  }
+
+  sendJson(res, 404, { error: { message: `Not found: ${req.method} ${req.url}` } });
+});
+
+server.listen(PORT, () => {
+  console.log(`[MockLLM] Listening on http://localhost:${PORT}/v1 (default scenario: ${DEFAULT_SCENARIO}, ${fixtures.length} fixtures)`);
+});
@@ -0,0 +1,261 @@
+/**
+ * Chat End-to-End Test
+ * Runs the discover -> deep dive -> synthesize workflow of /api/chat against
+ * the mock LLM server, with no network: the route handler is called in
+ * process and talks to the mock over the OpenAI-compatible provider.
+ *
+ * Usage:
+ *   npm run test:e2e
+ */
+
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+import { readChatStream } from '../lib/chat-stream';
+import type { ChatStreamEvent } from '../lib/types';
+
+const PORT = process.env.MOCK_LLM_PORT || '4011';
+
+// Configure before the route and provider modules read the environment
+Object.assign(process.env, {
+  MOCK_LLM_PORT: PORT,
+  LLM_PROVIDER: 'openai',
+  OPENAI_BASE_URL: `http://127.0.0.1:${PORT}/v1`,
+  LLM_TIMEOUT_MS: '2000',
+  CONVERSATION_STORE: 'memory',
+  PROFILE_STORE: 'memory',
+});
+
+type ChatHandler = (req: NextRequest) => Promise<Response>;
+
+const tests: { name: string; run: (chat: ChatHandler) => Promise<void> }[] = [];
+
+function test(name: string, run: (chat: ChatHandler) => Promise<void>) {
+  tests.push({ name, run });
+}
+
+async function post(
+  chat: ChatHandler,
+  body: Record<string, unknown>,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const { NextRequest } = await import('next/server');
+  return chat(new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  }));
+}
+
+/** Collect the SSE events the way the chat UI reads them */
+async function readEvents(response: Response): Promise<ChatStreamEvent[]> {
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('Content-Type') || '', /text\/event-stream/);
+
+  // The route enqueues strings; Next encodes them when writing the response
+  const encoder = new TextEncoder();
+  const encoded = response.body!.pipeThrough(new TransformStream<string | Uint8Array, Uint8Array>({
+    transform: (chunk, controller) => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk),
+  }));
+
+  const events: ChatStreamEvent[] = [];
+  await readChatStream(new Response(encoded), event => events.push(event));
+  return events;
+}
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+test('streams metadata, content, citations and done', async chat => {
+  const events = await readEvents(await post(chat, { message: '如何融资' }));
+  const types = events.map(e => e.type);
+
+  assert.equal(types[0], 'metadata');
+  assert.equal(types[types.length - 1], 'done');
+  assert.ok(types.includes('content'));
+  assert.ok(types.indexOf('citations') > types.lastIndexOf('content'));
+  assert.ok(!types.includes('error'));
+
+  const metadata = events[0] as Extract<ChatStreamEvent, { type: 'metadata' }>;
+  assert.ok(metadata.resources.length > 0);
+
+  const answer = events.flatMap(e => e.type === 'content' ? [e.chunk] : []).join('');
+  assert.match(answer, /如何融资/);
+  for (const resource of metadata.resources) {
+    assert.ok(answer.includes(resource.title), `answer cites ${resource.code}`);
+  }
+
+  const citations = events.find(e => e.type === 'citations') as Extract<ChatStreamEvent, { type: 'citations' }>;
+  assert.equal(citations.status, 'verified');
+
+  const done = events[events.length - 1] as Extract<ChatStreamEvent, { type: 'done' }>;
+  assert.equal(done.usage?.estimated, false);
+  assert.ok(done.totalTokens > 0);
+});
+
+test('provider error status becomes an error event', async chat => {
+  const events = await readEvents(await post(chat, { message: '如何融资 [mock:error=429]' }));
+  const types = events.map(e => e.type);
+
+  assert.deepEqual(types, ['metadata', 'error', 'done']);
+  const error = events[1] as Extract<ChatStreamEvent, { type: 'error' }>;
+  assert.equal(error.code, 'SERVICE_ERROR');
+});
+
+test('stalled stream becomes a TIMEOUT error event', async chat => {
+  const events = await readEvents(await post(chat, { message: '如何融资 [mock:stall]' }));
+  const types = events.map(e => e.type);
+
+  assert.ok(types.includes('content'));
+  assert.equal(types[types.length - 1], 'done');
+  const error = events.find(e => e.type === 'error') as Extract<ChatStreamEvent, { type: 'error' }>;
+  assert.equal(error.code, 'TIMEOUT');
+});
+
+// ============================================================================
+// Non-streaming
+// ============================================================================
+
+test('non-streaming answer returns the text and citations', async chat => {
+  const response = await post(chat, { message: '怎么找联合创始人', stream: false });
+  assert.equal(response.status, 200);
+
+  const body = await response.json();
+  assert.equal(body.success, true);
+  assert.match(body.data.text, /怎么找联合创始人/);
+  assert.ok(body.data.resources.length > 0);
+  assert.equal(body.data.citations.status, 'verified');
+});
+
+test('non-streaming provider error returns 502 SERVICE_ERROR', async chat => {
+  const response = await post(chat, { message: '怎么找联合创始人 [mock:error=500]', stream: false });
+  assert.equal(response.status, 502);
+
+  const body = await response.json();
+  assert.equal(body.success, false);
+  assert.equal(body.code, 'SERVICE_ERROR');
+});
+
+test('provider timeout returns 504 TIMEOUT', async chat => {
+  const response = await post(chat, { message: '怎么找联合创始人 [mock:timeout]', stream: false });
+  assert.equal(response.status, 504);
+
+  const body = await response.json();
+  assert.equal(body.code, 'TIMEOUT');
+});
+
+test('chunked body over the size limit returns 400 without reading it all', async chat => {
+  const { NextRequest } = await import('next/server');
+  const { CHAT_REQUEST_LIMITS } = await import('../lib/validation');
+
+  // No Content-Length: the limit has to be enforced while reading
+  const chunk = new TextEncoder().encode(' '.repeat(64 * 1024));
+  const maxChunks = Math.ceil(CHAT_REQUEST_LIMITS.maxBodyBytes / chunk.byteLength) * 100;
+  let pulled = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull: controller => {
+      if (++pulled > maxChunks) controller.close();
+      else controller.enqueue(chunk);
+    },
+  });
+
+  const response = await chat(new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    duplex: 'half',
+  } as ConstructorParameters<typeof NextRequest>[1]));
+  assert.equal(response.status, 400);
+  assert.equal((await response.json()).code, 'INVALID_REQUEST');
+  assert.ok(pulled < maxChunks / 10, `stopped after ${pulled} chunks`);
+});
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+test('conversation summaries add tokens but not requests', async chat => {
+  const { NextRequest } = await import('next/server');
+  const conversations = await import('../app/api/conversations/route');
+  const conversationDetail = await import('../app/api/conversations/[id]/route');
+  const usageRoute = await import('../app/api/usage/route');
+
+  const headers = { 'Cookie': `yc_session=${randomUUID()}`, 'X-Forwarded-For': '10.0.0.22' };
+  const usage = async () =>
+    (await (await usageRoute.GET(new NextRequest('http://localhost/api/usage', { headers }))).json()).data;
+
+  const created = await conversations.POST(new NextRequest('http://localhost/api/conversations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: '{}',
+  }));
+  const { id } = (await created.json()).data;
+  const loadMemory = async () => (await (await conversationDetail.GET(
+    new NextRequest(`http://localhost/api/conversations/${id}`, { headers }),
+    { params: { id } }
+  )).json()).data.memory;
+
+  // The third exchange pushes the first one out of the recent window
+  for (const message of ['如何融资', '怎么找联合创始人', '如何定价']) {
+    const response = await post(chat, { message, conversationId: id, stream: false }, headers);
+    assert.equal(response.status, 200);
+  }
+  const answered = (await usage()).totals;
+  assert.equal(answered.requests, 3);
+
+  let memory;
+  for (let attempt = 0; attempt < 50 && !memory; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    memory = await loadMemory();
+  }
+  assert.ok(memory, 'older turns were summarized');
+
+  const totals = (await usage()).totals;
+  assert.equal(totals.requests, 3);
+  assert.ok(totals.totalTokens > answered.totalTokens, 'summary tokens are recorded');
+});
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+async function waitForMock() {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${PORT}/v1/models`);
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`Mock LLM server did not start on port ${PORT}`);
+}
+
+async function main() {
+  // Starts listening on import
+  await import('./mock-llm-server');
+  await waitForMock();
+  const { POST } = await import('../app/api/chat/route');
+
+  let failed = 0;
+  for (const { name, run } of tests) {
+    try {
+      await run(POST);
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}\n`, error);
+    }
+  }
+
+  console.log(`\n${tests.length - failed}/${tests.length} passed`);
+  // The mock server keeps the event loop alive
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
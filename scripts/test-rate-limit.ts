@@ -0,0 +1,150 @@
+/**
+ * Rate Limit Store Test
+ * Runs the Redis store's Lua scripts for every algorithm against the
+ * in-process fake Redis, and checks that the RESP client recovers from
+ * failed connection setup and malformed replies.
+ *
+ * Usage:
+ *   npm run test:rate-limit
+ */
+
+import assert from 'node:assert/strict';
+import { FakeRedisServer } from './fake-redis';
+import { RedisRateLimitStore, RespClient } from '../lib/rate-limit';
+import type { RateLimitAlgorithm, RateLimitRule } from '../lib/types';
+
+const RULE: RateLimitRule = { windowMs: 1000, max: 3 };
+
+let clock = Date.now();
+const server = new FakeRedisServer({ now: () => clock });
+
+const tests: { name: string; run: (url: string) => Promise<void> }[] = [];
+
+function test(name: string, run: (url: string) => Promise<void>) {
+  tests.push({ name, run });
+}
+
+/** Consume once per timestamp (ms after the start) and collect the results */
+async function consumeAt(store: RedisRateLimitStore, algorithm: RateLimitAlgorithm, start: number, offsets: number[]) {
+  const results = [];
+  for (const offset of offsets) {
+    clock = start + offset;
+    results.push(await store.consume('chat:127.0.0.1', RULE, algorithm, clock));
+  }
+  return results;
+}
+
+// ============================================================================
+// Algorithms
+// ============================================================================
+
+test('fixed-window allows max requests per window', async url => {
+  const client = new RespClient(url);
+  const store = new RedisRateLimitStore(client);
+  const start = clock;
+
+  const results = await consumeAt(store, 'fixed-window', start, [0, 100, 200, 300]);
+  assert.deepEqual(results.map(r => r.allowed), [true, true, true, false]);
+  assert.deepEqual(results.map(r => r.remaining), [2, 1, 0, 0]);
+  assert.equal(results[3].retryAfter, 1);
+
+  // The key expires with the window
+  const [next] = await consumeAt(store, 'fixed-window', start, [1000]);
+  assert.equal(next.allowed, true);
+  assert.equal(next.remaining, 2);
+  client.close();
+});
+
+test('sliding-window counts requests in the trailing window', async url => {
+  const client = new RespClient(url);
+  const store = new RedisRateLimitStore(client);
+  const start = clock;
+
+  const results = await consumeAt(store, 'sliding-window', start, [0, 400, 800, 900]);
+  assert.deepEqual(results.map(r => r.allowed), [true, true, true, false]);
+  assert.deepEqual(results.map(r => r.remaining), [2, 1, 0, 0]);
+  assert.equal(results[3].retryAfter, 1);
+
+  // Only the request at 0 has left the window; the one at 400 still counts
+  const later = await consumeAt(store, 'sliding-window', start, [1001, 1100]);
+  assert.deepEqual(later.map(r => r.allowed), [true, false]);
+  client.close();
+});
+
+test('token-bucket refills at max per window', async url => {
+  const client = new RespClient(url);
+  const store = new RedisRateLimitStore(client);
+  const start = clock;
+
+  const results = await consumeAt(store, 'token-bucket', start, [0, 0, 0, 0]);
+  assert.deepEqual(results.map(r => r.allowed), [true, true, true, false]);
+  assert.deepEqual(results.map(r => r.remaining), [2, 1, 0, 0]);
+  assert.equal(results[3].retryAfter, 1);
+
+  // One token every windowMs / max = 333ms
+  const later = await consumeAt(store, 'token-bucket', start, [200, 340, 400]);
+  assert.deepEqual(later.map(r => r.allowed), [false, true, false]);
+  client.close();
+});
+
+// ============================================================================
+// Client
+// ============================================================================
+
+test('client reconnects after AUTH fails', async url => {
+  server.password = 'secret';
+  const client = new RespClient(url.replace('redis://', 'redis://:wrong@'));
+  try {
+    await assert.rejects(client.send(['PING']), /WRONGPASS/);
+    await assert.rejects(client.send(['PING']), /WRONGPASS/);
+
+    server.password = 'wrong';
+    assert.equal(await client.send(['PING']), 'PONG');
+  } finally {
+    server.password = undefined;
+    client.close();
+  }
+});
+
+test('client reconnects after SELECT fails', async url => {
+  const client = new RespClient(`${url}/99`);
+  await assert.rejects(client.send(['PING']), /DB index/);
+  await assert.rejects(client.send(['PING']), /DB index/);
+  client.close();
+});
+
+test('malformed reply fails the command without crashing', async url => {
+  const client = new RespClient(url);
+  assert.equal(await client.send(['PING']), 'PONG');
+
+  server.corruptNextReply = true;
+  await assert.rejects(client.send(['PING']), /Unexpected RESP type/);
+  assert.equal(await client.send(['PING']), 'PONG');
+  client.close();
+});
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+async function main() {
+  const url = await server.listen();
+  let failed = 0;
+
+  for (const { name, run } of tests) {
+    server.flush();
+    try {
+      await run(url);
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}\n`, error);
+    }
+  }
+
+  await server.close();
+  console.log(`\n${tests.length - failed}/${tests.length} passed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();